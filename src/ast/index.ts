@@ -1,8 +1,12 @@
+import type { Token } from '../lexer/index.js';
+
 // AST Node definitions
 export interface ASTNode {
   type: string;
   line: number;
   column: number;
+  // line and column repeat the start of the range
+  range: Range;
 }
 
 export interface DiagramNode extends ASTNode {
@@ -14,30 +18,88 @@ export interface DiagramNode extends ASTNode {
 
 export interface FlowchartNode extends ASTNode {
   type: 'flowchart';
+  title?: string; // From frontmatter; flowcharts have no title statement
   direction?: string;
   nodes: FlowchartElement[];
+  classDefs: ClassDefStatement[];
+  classAssignments: ClassAssignment[];
+  styles: StyleStatement[];
+  linkStyles: LinkStyleStatement[];
 }
 
 export interface FlowchartElement extends ASTNode {
   type: 'node' | 'arrow' | 'subgraph';
   id?: string;
   label?: string;
-  shape?: 'rect' | 'round' | 'diamond' | 'circle';
+  shape?: FlowchartShape;
   from?: string;
   to?: string;
+  style?: 'normal' | 'dotted' | 'thick' | 'invisible';
+  head?: 'arrow' | 'open' | 'cross' | 'circle';
+  length?: number;
+  bidirectional?: boolean;
+  classes?: string[];
   children?: FlowchartElement[];
 }
 
+export type FlowchartShape =
+  | 'rect' | 'round' | 'stadium' | 'subroutine' | 'cylinder' | 'circle' | 'double-circle' | 'asymmetric'
+  | 'diamond' | 'hexagon' | 'lean-right' | 'lean-left' | 'trapezoid' | 'inv-trapezoid'
+  | 'text' | 'notch-rect' | 'lin-rect' | 'sm-circ' | 'fr-circ' | 'fork' | 'hourglass' | 'brace' | 'brace-r'
+  | 'braces' | 'bolt' | 'doc' | 'delay' | 'h-cyl' | 'lin-cyl' | 'curv-trap' | 'div-rect' | 'tri' | 'win-pane'
+  | 'f-circ' | 'lin-doc' | 'notch-pent' | 'flip-tri' | 'sl-rect' | 'docs' | 'procs' | 'flag' | 'bow-rect'
+  | 'cross-circ' | 'tag-doc' | 'tag-rect' | 'icon' | 'image';
+
+export interface StyleProperty {
+  name: string;
+  value: string;
+}
+
+export interface ClassDefStatement extends ASTNode {
+  type: 'classDef';
+  names: string[];
+  properties: StyleProperty[];
+}
+
+export interface ClassAssignment extends ASTNode {
+  type: 'classAssignment';
+  ids: string[];
+  className: string;
+}
+
+export interface StyleStatement extends ASTNode {
+  type: 'style';
+  id: string;
+  properties: StyleProperty[];
+}
+
+export interface LinkStyleStatement extends ASTNode {
+  type: 'linkStyle';
+  indices: number[] | 'default';
+  interpolate?: string; // Curve name from 'interpolate <curve>'
+  properties: StyleProperty[];
+}
+
 export interface SequenceNode extends ASTNode {
   type: 'sequence';
+  title?: string;
   participants: ParticipantNode[];
   messages: MessageNode[];
+  blocks: SequenceBlock[];
+  activations: ActivationNode[];
+  notes: SequenceNote[];
+  lifecycle: ParticipantLifecycle[];
+  autonumber?: { start: number; step: number };
 }
 
 export interface ParticipantNode extends ASTNode {
   type: 'participant';
+  kind: 'participant' | 'actor';
   name: string;
   alias?: string;
+  participantType?: 'boundary' | 'control' | 'entity' | 'database' | 'collections' | 'queue' | 'actor';
+  box?: string;
+  created?: boolean;
 }
 
 export interface MessageNode extends ASTNode {
@@ -45,7 +107,128 @@ export interface MessageNode extends ASTNode {
   from: string;
   to: string;
   message: string;
-  arrowType: 'solid' | 'dotted' | 'thick';
+  arrowType: 'solid-open' | 'dotted-open' | 'solid-arrow' | 'dotted-arrow' | 'solid-cross' | 'dotted-cross' |
+    'solid-async' | 'dotted-async' | 'solid-bidirectional' | 'dotted-bidirectional';
+  activation?: 'activate' | 'deactivate';
+}
+
+export interface SequenceBlock extends ASTNode {
+  type: 'block';
+  kind: 'loop' | 'alt' | 'opt' | 'par' | 'critical' | 'break' | 'rect' | 'box';
+  label: string;
+  branches: SequenceBranch[];
+}
+
+export interface SequenceBranch extends ASTNode {
+  type: 'branch';
+  keyword: string;
+  label: string;
+  messages: MessageNode[];
+  blocks: SequenceBlock[];
+}
+
+export interface ActivationNode extends ASTNode {
+  type: 'activation';
+  participant: string;
+  action: 'activate' | 'deactivate';
+}
+
+export interface SequenceNote extends ASTNode {
+  type: 'note';
+  placement: 'left of' | 'right of' | 'over';
+  participants: string[];
+  text: string;
+}
+
+export interface ParticipantLifecycle extends ASTNode {
+  type: 'lifecycle';
+  action: 'create' | 'destroy';
+  participant: string;
+}
+
+export interface ClassDiagramNode extends ASTNode {
+  type: 'class';
+  title?: string; // From frontmatter; class diagrams have no title statement
+  classes: ClassDefinition[];
+  relations: ClassRelation[];
+  namespaces: ClassNamespace[];
+}
+
+export interface ClassDefinition extends ASTNode {
+  type: 'classDefinition';
+  name: string;
+  label?: string;
+  generic?: string;
+  annotations: string[];
+  members: ClassMember[];
+  namespace?: string;
+}
+
+export interface ClassMember extends ASTNode {
+  type: 'member';
+  kind: 'attribute' | 'method';
+  name: string;
+  visibility?: '+' | '-' | '#' | '~';
+  memberType?: string;
+  parameters?: string;
+  classifier?: '$' | '*';
+}
+
+export interface ClassRelation extends ASTNode {
+  type: 'relation';
+  from: string;
+  to: string;
+  operator: string;
+  relationType: 'inheritance' | 'realization' | 'composition' | 'aggregation' | 'association' | 'dependency' | 'link' | 'lollipop';
+  lineStyle: 'solid' | 'dashed';
+  fromCardinality?: string;
+  toCardinality?: string;
+  label?: string;
+}
+
+export interface ClassNamespace extends ASTNode {
+  type: 'namespace';
+  name: string;
+  classes: string[];
+}
+
+export interface StateDiagramNode extends ASTNode {
+  type: 'state';
+  title?: string; // From frontmatter; state diagrams have no title statement
+  direction?: string;
+  states: StateDefinition[];
+  transitions: StateTransition[];
+  notes: StateNote[];
+}
+
+export interface StateDefinition extends ASTNode {
+  type: 'stateDefinition';
+  id: string;
+  label?: string;
+  descriptions: string[];
+  kind: 'simple' | 'composite' | 'fork' | 'join' | 'choice';
+  regions?: StateRegion[];
+}
+
+export interface StateRegion extends ASTNode {
+  type: 'region';
+  states: StateDefinition[];
+  transitions: StateTransition[];
+  notes: StateNote[];
+}
+
+export interface StateTransition extends ASTNode {
+  type: 'transition';
+  from: string;
+  to: string;
+  label?: string;
+}
+
+export interface StateNote extends ASTNode {
+  type: 'note';
+  position: 'left of' | 'right of';
+  state: string;
+  text: string;
 }
 
 export interface XYChartNode extends ASTNode {
@@ -63,6 +246,153 @@ export interface XYChartNode extends ASTNode {
   }[];
 }
 
+export interface PieNode extends ASTNode {
+  type: 'pie';
+  title?: string;
+  showData: boolean;
+  slices: PieSlice[];
+}
+
+export interface PieSlice extends ASTNode {
+  type: 'slice';
+  label: string;
+  value: number;
+}
+
+export interface GanttNode extends ASTNode {
+  type: 'gantt';
+  title?: string;
+  dateFormat: string;
+  axisFormat?: string;
+  excludes: string[];
+  todayMarker?: string;
+  sections: GanttSection[];
+}
+
+export interface GanttSection extends ASTNode {
+  type: 'section';
+  name: string;
+  tasks: GanttTask[];
+}
+
+export interface GanttTask extends ASTNode {
+  type: 'task';
+  name: string;
+  id?: string;
+  statuses: ('done' | 'active' | 'crit' | 'milestone')[];
+  start?: string;
+  after?: string[];
+  end?: string;
+  duration?: string;
+  until?: string[];
+}
+
+export interface ERDiagramNode extends ASTNode {
+  type: 'er';
+  title?: string; // From frontmatter; ER diagrams have no title statement
+  entities: EREntity[];
+  relationships: ERRelationship[];
+}
+
+export interface EREntity extends ASTNode {
+  type: 'entity';
+  name: string;
+  alias?: string;
+  attributes: ERAttribute[];
+}
+
+export interface ERAttribute extends ASTNode {
+  type: 'attribute';
+  attributeType: string;
+  name: string;
+  keys: ('PK' | 'FK' | 'UK')[];
+  comment?: string;
+}
+
+export type ERCardinality = 'zero-or-one' | 'exactly-one' | 'zero-or-more' | 'one-or-more';
+
+export interface ERRelationship extends ASTNode {
+  type: 'relationship';
+  from: string;
+  to: string;
+  fromCardinality: ERCardinality;
+  toCardinality: ERCardinality;
+  identifying: boolean;
+  label: string;
+}
+
+export interface GitgraphNode extends ASTNode {
+  type: 'gitgraph';
+  title?: string; // From frontmatter; git graphs have no title statement
+  direction?: string;
+  branches: string[];
+  commands: GitCommand[];
+}
+
+export interface GitCommand extends ASTNode {
+  type: 'gitCommand';
+  command: 'commit' | 'branch' | 'checkout' | 'merge' | 'cherry-pick';
+  branch: string;
+  id?: string;
+  tag?: string;
+  commitType?: 'NORMAL' | 'REVERSE' | 'HIGHLIGHT';
+  parent?: string;
+  order?: number;
+}
+
+export interface MindmapNode extends ASTNode {
+  type: 'mindmap';
+  title?: string; // From frontmatter; mindmaps have no title statement
+  root?: MindmapItem;
+}
+
+export interface MindmapItem extends ASTNode {
+  type: 'mindmapItem';
+  id: string;
+  label: string;
+  shape: 'default' | 'square' | 'rounded' | 'circle' | 'bang' | 'cloud' | 'hexagon';
+  icon?: string;
+  classes: string[];
+  children: MindmapItem[];
+}
+
+export interface TimelineNode extends ASTNode {
+  type: 'timeline';
+  title?: string;
+  sections: TimelineSection[];
+}
+
+export interface TimelineSection extends ASTNode {
+  type: 'section';
+  name: string;
+  periods: TimelinePeriod[];
+}
+
+export interface TimelinePeriod extends ASTNode {
+  type: 'period';
+  label: string;
+  events: string[];
+}
+
+export interface JourneyNode extends ASTNode {
+  type: 'journey';
+  title?: string;
+  sections: JourneySection[];
+}
+
+export interface JourneySection extends ASTNode {
+  type: 'section';
+  name: string;
+  tasks: JourneyTask[];
+}
+
+export interface JourneyTask extends ASTNode {
+  type: 'task';
+  name: string;
+  score: number;
+  actors: string[];
+}
+
 export interface BlockDiagramNode extends ASTNode {
   type: 'block';
   columns?: number;
@@ -75,17 +405,97 @@ export interface BlockElement extends ASTNode {
   label: string;
 }
 
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface TextEdit {
+  range: Range;
+  text: string;
+}
+
 export interface ValidationError {
   line: number;
   column: number;
+  // The source text the finding is about; line and column repeat its start
+  range: Range;
   message: string;
   code: string;
+  severity: Severity;
   suggestion?: string;
+  fix?: TextEdit;
+}
+
+export type RuleSetting = Severity | 'off';
+
+export interface ValidationOptions {
+  targetMermaidVersion?: string;
+  strict?: boolean;
+  rules?: { [code: string]: RuleSetting };
+  lintRules?: LintRule[];
+}
+
+export interface LintContext {
+  ast: ASTNode;
+  diagramType: string;
+  tokens: readonly Token[];
+  source: string;
+  // Pass an AST node to report on its whole range, or a line and column for a single position
+  report(at: { line: number; column: number; range?: Range }, message: string, suggestion?: string): void;
+}
+
+export interface LintRule {
+  // Used as the code of every finding the rule reports, so it can be configured through `rules`
+  code: string;
+  severity?: Severity;
+  check(context: LintContext): void;
 }
 
 export interface ValidationResult {
   isValid: boolean;
   diagramType: string;
   errors: ValidationError[];
+  warnings: ValidationError[];
   ast?: ASTNode;
 }
+
+export interface AppliedEdit extends TextEdit {
+  code: string;
+}
+
+export interface MarkdownBlock {
+  kind: 'fence' | 'html';
+  line: number;
+  column: number;
+  code: string;
+  // Positions in this result are relative to the block's code
+  result: ValidationResult;
+}
+
+export interface MarkdownValidationResult {
+  isValid: boolean;
+  blocks: MarkdownBlock[];
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+// A diagram file or Markdown document's result, tagged with where it came from
+export interface FileValidationResult {
+  path: string;
+  result: ValidationResult | MarkdownValidationResult;
+}
+
+export interface FixResult {
+  output: string;
+  edits: AppliedEdit[];
+  result: ValidationResult;
+}
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { runCli } from './index.js';
+
+try {
+  process.exitCode = runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    readStdin: () => process.stdin.isTTY ? undefined : readFileSync(0, 'utf8'),
+    cwd: process.cwd()
+  });
+} catch (error) {
+  process.stderr.write(`merval: ${error instanceof Error ? error.stack : String(error)}\n`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,255 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import { validateMermaid, validateMarkdown } from '../index.js';
+import { FileValidationResult } from '../ast/index.js';
+import { formatText, formatJson, formatSarif, formatJunit } from '../formatters/index.js';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  // Returns undefined when stdin is an interactive terminal
+  readStdin: () => string | undefined;
+  cwd: string;
+}
+
+interface CliOptions {
+  patterns: string[];
+  format: string;
+  maxWarnings: number | undefined;
+  quiet: boolean;
+  stdinFilename: string;
+  help: boolean;
+  version: boolean;
+}
+
+const FORMATTERS: { [format: string]: (files: FileValidationResult[]) => string } = {
+  text: formatText,
+  json: formatJson,
+  sarif: formatSarif,
+  junit: formatJunit
+};
+
+const MERMAID_EXTENSIONS = ['.mmd', '.mermaid'];
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx', '.markdown'];
+
+const USAGE = `Usage: merval [options] [file|dir|glob ...]
+
+Validates Mermaid diagrams in .mmd/.mermaid files and in Markdown (.md, .mdx).
+Reads stdin when no files are given or a file is "-".
+
+Options:
+  -f, --format <format>     Output format: text, json, sarif or junit (default: text)
+  --max-warnings <n>        Fail when there are more than n warnings
+  --quiet                   Report errors only; --max-warnings still counts warnings
+  --stdin-filename <path>   Name used for stdin; a Markdown extension validates it as Markdown
+  -h, --help                Show this help
+  -v, --version             Show the version
+
+Exit codes: 0 when no errors, 1 when there are errors or too many warnings, 2 on usage errors`;
+
+class UsageError extends Error {}
+
+/**
+ * Runs the merval command line
+ * @param args - Arguments after the program name
+ * @param io - Output streams, stdin and working directory
+ * @returns The process exit code
+ */
+export function runCli(args: string[], io: CliIO): number {
+  let options: CliOptions;
+  let files: FileValidationResult[];
+  try {
+    options = parseArgs(args);
+    if (options.help) {
+      io.stdout(USAGE + '\n');
+      return 0;
+    }
+    if (options.version) {
+      io.stdout(readPackageVersion() + '\n');
+      return 0;
+    }
+    files = validateInputs(options, io);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`merval: ${error.message}\n`);
+    return 2;
+  }
+
+  // --max-warnings counts the warnings --quiet hides, as in ESLint
+  const errorCount = files.reduce((count, { result }) => count + result.errors.length, 0);
+  const warningCount = files.reduce((count, { result }) => count + result.warnings.length, 0);
+  if (options.quiet) {
+    files = files.map(({ path, result }) => ({ path, result: { ...result, warnings: [] } }));
+  }
+  io.stdout(FORMATTERS[options.format](files));
+
+  if (errorCount > 0) return 1;
+  if (options.maxWarnings !== undefined && warningCount > options.maxWarnings) {
+    io.stderr(`merval: ${warningCount} ${warningCount === 1 ? 'warning exceeds' : 'warnings exceed'} the maximum of ${options.maxWarnings}\n`);
+    return 1;
+  }
+  return 0;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    patterns: [],
+    format: 'text',
+    maxWarnings: undefined,
+    quiet: false,
+    stdinFilename: '<stdin>',
+    help: false,
+    version: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // Accept both --flag value and --flag=value
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined) throw new UsageError(`${flag} expects a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case '-f':
+      case '--format':
+        options.format = value();
+        if (!(options.format in FORMATTERS)) {
+          throw new UsageError(`unknown format '${options.format}', expected one of ${Object.keys(FORMATTERS).join(', ')}`);
+        }
+        break;
+      case '--max-warnings': {
+        const raw = value();
+        if (!/^\d+$/.test(raw)) throw new UsageError(`--max-warnings expects a non-negative integer, got '${raw}'`);
+        options.maxWarnings = Number(raw);
+        break;
+      }
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '--stdin-filename':
+        options.stdinFilename = value();
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      case '-v':
+      case '--version':
+        options.version = true;
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-') throw new UsageError(`unknown option '${arg}'`);
+        options.patterns.push(arg);
+    }
+  }
+  return options;
+}
+
+function validateInputs(options: CliOptions, io: CliIO): FileValidationResult[] {
+  const files: FileValidationResult[] = [];
+  const patterns = options.patterns.length > 0 ? options.patterns : ['-'];
+
+  for (const pattern of patterns) {
+    if (pattern === '-') {
+      const text = io.readStdin();
+      if (text === undefined) throw new UsageError('no files given and stdin is a terminal; run merval --help for usage');
+      files.push({ path: options.stdinFilename, result: validateFile(options.stdinFilename, text) });
+      continue;
+    }
+
+    const paths = expandPattern(pattern, io.cwd);
+    if (paths.length === 0) throw new UsageError(`no diagram files match '${pattern}'`);
+    for (const path of paths) {
+      files.push({ path, result: validateFile(path, readFileSync(resolve(io.cwd, path), 'utf8')) });
+    }
+  }
+  return files;
+}
+
+function validateFile(path: string, text: string): FileValidationResult['result'] {
+  return MARKDOWN_EXTENSIONS.some(extension => path.toLowerCase().endsWith(extension))
+    ? validateMarkdown(text)
+    : validateMermaid(text);
+}
+
+function expandPattern(pattern: string, cwd: string): string[] {
+  const absolute = resolve(cwd, pattern);
+  if (!/[*?{[]/.test(pattern)) {
+    const stats = statSync(absolute, { throwIfNoEntry: false });
+    if (!stats) throw new UsageError(`no such file or directory '${pattern}'`);
+    // A file named explicitly is validated whatever its extension; directories are searched for diagram files
+    return stats.isDirectory() ? walk(absolute, cwd).filter(isDiagramFile) : [pattern];
+  }
+
+  // Search from the deepest directory before the first wildcard
+  const segments = pattern.split(/[\\/]/);
+  const firstWildcard = segments.findIndex(segment => /[*?{[]/.test(segment));
+  const base = resolve(cwd, segments.slice(0, firstWildcard).join('/') || '.');
+  const matcher = globToRegExp(segments.slice(firstWildcard).join('/'));
+  return walk(base, cwd).filter(path => matcher.test(relative(base, resolve(cwd, path)).split(sep).join('/')));
+}
+
+function walk(directory: string, cwd: string): string[] {
+  if (!statSync(directory, { throwIfNoEntry: false })?.isDirectory()) return [];
+  const paths: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      paths.push(...walk(path, cwd));
+    } else if (entry.isFile()) {
+      paths.push(relative(cwd, path));
+    }
+  }
+  return paths;
+}
+
+function isDiagramFile(path: string): boolean {
+  const lower = path.toLowerCase();
+  return [...MERMAID_EXTENSIONS, ...MARKDOWN_EXTENSIONS].some(extension => lower.endsWith(extension));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  // Commas only separate alternatives inside {a,b}; elsewhere they are literal
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i) > i) {
+      source += glob.slice(i, glob.indexOf(']', i) + 1);
+      i = glob.indexOf(']', i);
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function readPackageVersion(): string {
+  // Compiled to dist/cli, two levels below package.json
+  const packageJson = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8'));
+  return packageJson.version;
+}
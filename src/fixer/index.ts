@@ -0,0 +1,44 @@
+import { Parser } from '../parser/index.js';
+import { AppliedEdit, FixResult, ValidationError, ValidationOptions } from '../ast/index.js';
+
+// Each pass can uncover findings that were hidden behind earlier ones, e.g. a second unclosed subgraph
+const MAX_FIX_PASSES = 10;
+
+/**
+ * Repairs Mermaid code by applying the fixes attached to validation findings
+ * @param mermaidCode - The Mermaid diagram code to repair
+ * @param options - Validation options; rules turned off are not fixed
+ * @returns The repaired code, the edits in the order they were applied (each range refers to the code as it
+ *   was before that edit's pass) and the validation result for the repaired code
+ */
+export function fixMermaid(mermaidCode: string, options: ValidationOptions = {}): FixResult {
+  let output = mermaidCode;
+  const edits: AppliedEdit[] = [];
+  let result = new Parser(output, options).parse();
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const fixable = [...result.errors, ...result.warnings]
+      .filter((finding): finding is ValidationError & Required<Pick<ValidationError, 'fix'>> => finding.fix !== undefined)
+      .sort((a, b) => a.fix.range.start.offset - b.fix.range.start.offset);
+
+    // Overlapping fixes wait for the next pass, where they are recomputed against the new text
+    const accepted: AppliedEdit[] = [];
+    let lastEnd = -1;
+    for (const finding of fixable) {
+      const { range } = finding.fix;
+      if (range.start.offset <= lastEnd) continue;
+      accepted.push({ ...finding.fix, code: finding.code });
+      lastEnd = range.end.offset;
+    }
+    if (accepted.length === 0) break;
+
+    // Apply from the end so earlier offsets stay valid
+    for (const edit of [...accepted].reverse()) {
+      output = output.slice(0, edit.range.start.offset) + edit.text + output.slice(edit.range.end.offset);
+    }
+    edits.push(...accepted);
+    result = new Parser(output, options).parse();
+  }
+
+  return { output, edits, result };
+}
@@ -0,0 +1,190 @@
+import { FileValidationResult, Severity, ValidationError } from '../ast/index.js';
+
+const SARIF_LEVELS: { [severity in Severity]: string } = { error: 'error', warning: 'warning', info: 'note' };
+
+/**
+ * Formats results as human-readable text, one block per file with problems
+ * @param files - One result or several, tagged with their file paths
+ * @returns The report, ending with a summary line
+ */
+export function formatText(files: FileValidationResult | FileValidationResult[]): string {
+  files = toArray(files);
+  const lines: string[] = [];
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const { path, result } of files) {
+    const findings = sortFindings([...result.errors, ...result.warnings]);
+    errorCount += result.errors.length;
+    warningCount += result.warnings.length;
+    if (findings.length === 0) continue;
+
+    lines.push(path);
+    for (const finding of findings) {
+      lines.push(`  ${finding.line}:${finding.column}  ${finding.severity.padEnd(7)}  ${finding.message}  ${finding.code}`);
+    }
+    lines.push('');
+  }
+
+  const problems = errorCount + warningCount;
+  lines.push(problems === 0
+    ? `${files.length} ${plural(files.length, 'file')} checked, no problems found`
+    : `${problems} ${plural(problems, 'problem')} (${errorCount} ${plural(errorCount, 'error')}, ${warningCount} ${plural(warningCount, 'warning')})`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats results as JSON, one entry per file
+ * @param files - One result or several, tagged with their file paths
+ * @returns A JSON array of `{ path, isValid, errors, warnings }`
+ */
+export function formatJson(files: FileValidationResult | FileValidationResult[]): string {
+  return JSON.stringify(toArray(files).map(({ path, result }) => ({
+    path,
+    isValid: result.isValid,
+    errors: result.errors,
+    warnings: result.warnings
+  })), null, 2) + '\n';
+}
+
+/**
+ * Formats results as a SARIF 2.1.0 log for code scanning. Each finding code becomes a rule described by its
+ * code, with the suggestion all of its findings share as help; every result's message ends with its own suggestion
+ * @param files - One result or several, tagged with their file paths
+ * @returns The SARIF log as JSON
+ */
+export function formatSarif(files: FileValidationResult | FileValidationResult[]): string {
+  const rules: { id: string; name: string; shortDescription: { text: string }; help?: { text: string }; defaultConfiguration: { level: string } }[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  // Suggestions that name a node or id differ between findings; only a code's shared suggestion is its help,
+  // so the rules do not depend on which finding comes first
+  const suggestions = new Map<string, Set<string | undefined>>();
+  for (const { result } of toArray(files)) {
+    for (const finding of [...result.errors, ...result.warnings]) {
+      suggestions.set(finding.code, (suggestions.get(finding.code) ?? new Set()).add(finding.suggestion));
+    }
+  }
+
+  const results = toArray(files).flatMap(({ path, result }) =>
+    sortFindings([...result.errors, ...result.warnings]).map(finding => {
+      if (!ruleIndex.has(finding.code)) {
+        const [help, ...others] = suggestions.get(finding.code)!;
+        ruleIndex.set(finding.code, rules.length);
+        rules.push({
+          id: finding.code,
+          name: finding.code.toLowerCase().replace(/(^|_)([a-z])/g, (_, __, letter: string) => letter.toUpperCase()),
+          shortDescription: { text: describeCode(finding.code) },
+          ...(help && others.length === 0 && { help: { text: help } }),
+          defaultConfiguration: { level: SARIF_LEVELS[finding.severity] }
+        });
+      }
+      return {
+        ruleId: finding.code,
+        ruleIndex: ruleIndex.get(finding.code),
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: withSuggestion(finding) },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: toUri(path) },
+            region: {
+              startLine: finding.line,
+              startColumn: finding.column,
+              endLine: finding.range.end.line,
+              endColumn: finding.range.end.column
+            }
+          }
+        }]
+      };
+    }));
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'merval', informationUri: 'https://github.com/aj-archipelago/merval', rules } },
+      results
+    }]
+  }, null, 2) + '\n';
+}
+
+/**
+ * Formats results as JUnit XML with one test case per file. A file with errors fails, listing each error's
+ * position, code and suggestion; warnings go to the test case's output
+ * @param files - One result or several, tagged with their file paths
+ * @returns The JUnit report
+ */
+export function formatJunit(files: FileValidationResult | FileValidationResult[]): string {
+  const list = toArray(files);
+  const failures = list.filter(({ result }) => result.errors.length > 0).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="merval" tests="${list.length}" failures="${failures}" errors="0">`,
+    `  <testsuite name="merval" tests="${list.length}" failures="${failures}" errors="0" skipped="0">`
+  ];
+
+  for (const { path, result } of list) {
+    const open = `    <testcase classname="merval" name="${escapeXml(path)}"`;
+    if (result.errors.length === 0 && result.warnings.length === 0) {
+      lines.push(`${open}/>`);
+      continue;
+    }
+    lines.push(`${open}>`);
+    if (result.errors.length > 0) {
+      const [first] = sortFindings(result.errors);
+      const message = result.errors.length === 1 ? first.message : `${result.errors.length} errors`;
+      lines.push(`      <failure message="${escapeXml(message)}" type="${first.code}">${escapeXml(describeFindings(path, result.errors))}</failure>`);
+    }
+    if (result.warnings.length > 0) {
+      lines.push(`      <system-out>${escapeXml(describeFindings(path, result.warnings))}</system-out>`);
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function describeFindings(path: string, findings: ValidationError[]): string {
+  return sortFindings(findings)
+    .map(finding => `${path}:${finding.line}:${finding.column} ${finding.severity} ${finding.code}: ${finding.message}` +
+      (finding.suggestion ? `\n  ${finding.suggestion}` : ''))
+    .join('\n');
+}
+
+function withSuggestion(finding: ValidationError): string {
+  if (!finding.suggestion) return finding.message;
+  return `${finding.message}${/[.!?]$/.test(finding.message) ? '' : '.'} ${finding.suggestion}`;
+}
+
+function describeCode(code: string): string {
+  // INCOMPLETE_ARROW -> Incomplete arrow
+  const words = code.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toArray(files: FileValidationResult | FileValidationResult[]): FileValidationResult[] {
+  return Array.isArray(files) ? files : [files];
+}
+
+function sortFindings(findings: ValidationError[]): ValidationError[] {
+  return [...findings].sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+function plural(count: number, word: string): string {
+  return count === 1 ? word : `${word}s`;
+}
+
+function toUri(path: string): string {
+  // SARIF locations are URIs; relative paths resolve against the repository root
+  return path.split(/[\\/]/).map(encodeURIComponent).join('/');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
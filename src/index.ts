@@ -1,5 +1,6 @@
 import { Parser } from './parser/index.js';
-import { ValidationResult } from './ast/index.js';
+import { ValidationResult, ValidationOptions, ValidationError, MarkdownBlock, MarkdownValidationResult, Range } from './ast/index.js';
+import { extractMermaidBlocks, mapToDocument, positionAt } from './markdown/index.js';
 import { MERMAID_VERSION_INFO } from './version.js';
 
 /**
@@ -16,7 +17,20 @@ export function getMermaidVersionInfo(): { validatedAgainst: string; lastValidat
  * @param targetMermaidVersion - Optional Mermaid version to check compatibility against
  * @returns ValidationResult with validation status, errors, and AST
  */
-export function validateMermaid(mermaidCode: string, targetMermaidVersion?: string): ValidationResult {
+export function validateMermaid(mermaidCode: string, targetMermaidVersion?: string): ValidationResult;
+/**
+ * Validates Mermaid diagram syntax with additional validation options
+ * @param mermaidCode - The Mermaid diagram code to validate
+ * @param options - Target Mermaid version, strict mode and per-rule settings (e.g. `{ rules: { INLINE_COMMENT_NOT_SUPPORTED: 'off' } }`)
+ * @returns ValidationResult with validation status, errors, and AST
+ */
+export function validateMermaid(mermaidCode: string, options?: ValidationOptions): ValidationResult;
+export function validateMermaid(mermaidCode: string, versionOrOptions?: string | ValidationOptions): ValidationResult {
+  const options: ValidationOptions = typeof versionOrOptions === 'string'
+    ? { targetMermaidVersion: versionOrOptions }
+    : versionOrOptions ?? {};
+  const targetMermaidVersion = options.targetMermaidVersion;
+
   // Handle non-string inputs
   if (typeof mermaidCode !== 'string') {
     return {
@@ -25,9 +39,12 @@ export function validateMermaid(mermaidCode: string, targetMermaidVersion?: stri
       errors: [{
         line: 1,
         column: 1,
+        range: documentStart(),
         message: 'Input must be a string',
-        code: 'INVALID_INPUT_TYPE'
-      }]
+        code: 'INVALID_INPUT_TYPE',
+        severity: 'error'
+      }],
+      warnings: []
     };
   }
 
@@ -38,26 +55,32 @@ export function validateMermaid(mermaidCode: string, targetMermaidVersion?: stri
       errors: [{
         line: 1,
         column: 1,
+        range: documentStart(),
         message: 'Empty mermaid code',
-        code: 'EMPTY_INPUT'
-      }]
+        code: 'EMPTY_INPUT',
+        severity: 'error'
+      }],
+      warnings: []
     };
   }
 
   try {
-    const parser = new Parser(mermaidCode);
+    const parser = new Parser(mermaidCode, options);
     const result = parser.parse();
     
-    // Check version compatibility if specified
-    if (targetMermaidVersion && !isMermaidVersionSupported(targetMermaidVersion)) {
-      result.errors.push({
+    // Check version compatibility if specified; an untested version is advice, not breakage
+    const versionSetting = options.rules?.VERSION_MISMATCH ?? 'warning';
+    if (targetMermaidVersion && !isMermaidVersionSupported(targetMermaidVersion) && versionSetting !== 'off') {
+      (versionSetting === 'error' ? result.errors : result.warnings).push({
         line: 1,
         column: 1,
+        range: documentStart(),
         message: `This validator was tested against Mermaid ${getMermaidVersionInfo().validatedAgainst}, but you're requesting validation for version ${targetMermaidVersion}. Compatibility cannot be guaranteed.`,
         code: 'VERSION_MISMATCH',
+        severity: versionSetting,
         suggestion: `Use Mermaid version ${getMermaidVersionInfo().validatedAgainst} or update this validator to support version ${targetMermaidVersion}`
       });
-      result.isValid = false;
+      result.isValid = result.errors.length === 0;
     }
     
     return result;
@@ -68,15 +91,81 @@ export function validateMermaid(mermaidCode: string, targetMermaidVersion?: stri
       errors: [{
         line: 1,
         column: 1,
+        range: documentStart(),
         message: `Validation error: ${error instanceof Error ? error.message : String(error)}`,
-        code: 'VALIDATION_ERROR'
-      }]
+        code: 'VALIDATION_ERROR',
+        severity: 'error'
+      }],
+      warnings: []
     };
     
     return errorResult;
   }
 }
 
+/**
+ * Validates every mermaid diagram in a Markdown or MDX document
+ * @param markdown - The document text
+ * @param options - Validation options applied to each diagram
+ * @returns Per-diagram results plus all errors and warnings with line and column numbers in the document
+ */
+export function validateMarkdown(markdown: string, options: ValidationOptions = {}): MarkdownValidationResult {
+  const blocks: MarkdownBlock[] = [];
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+
+  for (const block of extractMermaidBlocks(markdown)) {
+    const start = positionAt(markdown, block.offsets[0]);
+    const result = validateMermaid(block.code, options);
+    blocks.push({ kind: block.kind, line: start.line, column: start.column, code: block.code, result });
+
+    const toDocument = (finding: ValidationError): ValidationError => {
+      const { line, column } = mapToDocument(markdown, block, finding.line, finding.column);
+      const range = {
+        start: mapToDocument(markdown, block, finding.range.start.line, finding.range.start.column),
+        end: mapToDocument(markdown, block, finding.range.end.line, finding.range.end.column)
+      };
+      const mapped: ValidationError = { ...finding, line, column, range };
+      delete mapped.fix;
+      // Fixes carry over only where the code is copied verbatim; HTML blocks may have decoded entities
+      if (finding.fix && block.kind === 'fence') {
+        const { start: fixStart, end: fixEnd } = finding.fix.range;
+        mapped.fix = {
+          range: {
+            start: mapToDocument(markdown, block, fixStart.line, fixStart.column),
+            end: mapToDocument(markdown, block, fixEnd.line, fixEnd.column)
+          },
+          text: finding.fix.text
+        };
+      }
+      return mapped;
+    };
+    errors.push(...result.errors.map(toDocument));
+    warnings.push(...result.warnings.map(toDocument));
+
+    if (!block.closed) {
+      const opener = positionAt(markdown, block.openerOffset);
+      const lineEnd = markdown.indexOf('\n', block.openerOffset);
+      warnings.push({
+        line: opener.line,
+        column: opener.column,
+        range: { start: opener, end: positionAt(markdown, lineEnd === -1 ? markdown.length : lineEnd) },
+        message: block.kind === 'fence' ? 'Mermaid code fence is never closed' : 'Mermaid HTML block is never closed',
+        code: 'UNCLOSED_MERMAID_BLOCK',
+        severity: 'warning',
+        suggestion: block.kind === 'fence' ? 'Close the fence with a matching line of backticks or tildes' : 'Add the closing tag'
+      });
+    }
+  }
+
+  return { isValid: errors.length === 0, blocks, errors, warnings };
+}
+
+function documentStart(): Range {
+  // Findings about the input as a whole point at its first character
+  return { start: { line: 1, column: 1, offset: 0 }, end: { line: 1, column: 1, offset: 0 } };
+}
+
 /**
  * Simple validation that returns only boolean result
  * @param mermaidCode - The Mermaid diagram code to validate
@@ -109,5 +198,11 @@ export function isMermaidVersionSupported(version: string): boolean {
 }
 
 // Export types for TypeScript users
-export type { ValidationResult, ValidationError } from './ast/index.js';
+export type {
+  ValidationResult, ValidationError, ValidationOptions, Severity, RuleSetting, LintRule, LintContext,
+  Position, Range, TextEdit, AppliedEdit, FixResult, MarkdownBlock, MarkdownValidationResult, FileValidationResult
+} from './ast/index.js';
+export { fixMermaid } from './fixer/index.js';
+export { formatText, formatJson, formatSarif, formatJunit } from './formatters/index.js';
+export { maxNodes, requireTitle, nodeIdPattern, bannedShapes, maxSubgraphDepth } from './rules/index.js';
 export { TokenType } from './lexer/index.js';
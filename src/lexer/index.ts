@@ -1,3 +1,5 @@
+import type { Position, Range } from '../ast/index.js';
+
 // Token types for Mermaid syntax
 export enum TokenType {
   // Diagram declarations
@@ -21,6 +23,8 @@ export enum TokenType {
   ARROW = 'ARROW',
   DOTTED_ARROW = 'DOTTED_ARROW',
   THICK_ARROW = 'THICK_ARROW',
+  INVISIBLE_LINK = 'INVISIBLE_LINK',
+  LINK_START = 'LINK_START',
   SUBGRAPH = 'SUBGRAPH',
   SUBGRAPH_END = 'SUBGRAPH_END',
 
@@ -31,6 +35,9 @@ export enum TokenType {
   NOTE = 'NOTE',
   SEQUENCE_ARROW = 'SEQUENCE_ARROW',
 
+  // ER diagram specific
+  ER_RELATIONSHIP = 'ER_RELATIONSHIP',
+
   // Common
   IDENTIFIER = 'IDENTIFIER',
   STRING = 'STRING',
@@ -52,6 +59,7 @@ export enum TokenType {
   WHITESPACE = 'WHITESPACE',
   COMMENT = 'COMMENT',
   DIRECTIVE = 'DIRECTIVE',
+  FRONTMATTER = 'FRONTMATTER',
   EOF = 'EOF'
 }
 
@@ -61,13 +69,20 @@ export interface Token {
   line: number;
   column: number;
   position: number;
+  range: Range; // Start and end of the token's source text; line, column and position repeat the start
+  indent?: number; // Leading whitespace width, set on the first token of each line
 }
 
+// Tokens are built without a range, which tokenize() derives from their start and source text
+type TokenStart = Omit<Token, 'range'>;
+
 export class Lexer {
   private input: string;
   private position: number = 0;
   private line: number = 1;
   private column: number = 1;
+  private sequenceMode: boolean = false; // Enables sequence-only arrows such as -x and -)
+  private erMode: boolean = false; // Enables ER relationship markers such as ||--o{
 
   constructor(input: string) {
     this.input = input;
@@ -78,27 +93,61 @@ export class Lexer {
     this.position = 0;
     this.line = 1;
     this.column = 1;
+    this.sequenceMode = false;
+    this.erMode = false;
     
     const tokens: Token[] = [];
-    let token: Token | null;
+    let start: TokenStart | null;
 
-    while ((token = this.nextToken()) !== null && token.type !== TokenType.EOF) {
+    while ((start = this.nextToken()) !== null && start.type !== TokenType.EOF) {
+      const token: Token = { ...start, range: this.rangeOf(start) };
+      const indent = this.leadingIndent(token.position);
+      if (indent !== undefined) {
+        token.indent = indent;
+      }
+      if (token.type === TokenType.SEQUENCE_DIAGRAM) {
+        this.sequenceMode = true;
+      }
+      if (token.type === TokenType.ER_DIAGRAM) {
+        this.erMode = true;
+      }
       tokens.push(token);
     }
 
     // Always add EOF token
+    const end: Position = { line: this.line, column: this.column, offset: this.position };
     tokens.push({
       type: TokenType.EOF,
       value: '',
       line: this.line,
       column: this.column,
-      position: this.position
+      position: this.position,
+      range: { start: end, end }
     });
 
     return tokens;
   }
 
-  private nextToken(): Token | null {
+  private rangeOf(token: TokenStart): Range {
+    // Walk the token's source text from its start; a comment's trailing line break is not part of its range
+    const text = this.input.slice(token.position, token.position + token.value.length).replace(/(?:\r?\n|\r)$/, '');
+    let line = token.line;
+    let column = token.column;
+    for (let i = 0; i < text.length; i++) {
+      if (this.endsLine(token.position + i)) {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    return {
+      start: { line: token.line, column: token.column, offset: token.position },
+      end: { line, column, offset: token.position + text.length }
+    };
+  }
+
+  private nextToken(): TokenStart | null {
     if (this.position >= this.input.length) {
       return null;
     }
@@ -107,7 +156,7 @@ export class Lexer {
 
     // Skip whitespace
     if (/\s/.test(char)) {
-      if (char === '\n') {
+      if (this.endsLine(this.position)) {
         this.line++;
         this.column = 1;
       } else {
@@ -117,6 +166,14 @@ export class Lexer {
       return this.nextToken();
     }
 
+    // YAML frontmatter between --- lines, only before any other content
+    if (char === '-' && this.input.slice(0, this.position).trim() === '') {
+      const frontmatter = this.readFrontmatter();
+      if (frontmatter) {
+        return frontmatter;
+      }
+    }
+
     // Comments and directives
     if (char === '%' && this.position + 1 < this.input.length && this.input[this.position + 1] === '%') {
       // Check if this is a directive %%{...}%%
@@ -152,6 +209,30 @@ export class Lexer {
       };
     }
 
+    // ER relationship markers: two cardinality characters on each side of -- or ..
+    // (e.g. ||--o{, }|..|{). Invalid combinations are reported by the parser.
+    const erMatch = this.erMode && /^[|}o{]{2}(?:--|\.\.)[|}o{]{2}/.exec(this.input.slice(this.position, this.position + 6));
+    if (erMatch) {
+      const relationshipValue = erMatch[0];
+      this.position += relationshipValue.length;
+      this.column += relationshipValue.length;
+      return {
+        type: TokenType.ER_RELATIONSHIP,
+        value: relationshipValue,
+        line: this.line,
+        column: this.column - relationshipValue.length,
+        position: this.position - relationshipValue.length
+      };
+    }
+
+    // Flowchart links of any length (---, -.-, ===, ~~~, <-->, o--o, ...) and text link openers (A -- text --> B)
+    if (!this.sequenceMode) {
+      const link = this.readFlowchartLink();
+      if (link) {
+        return link;
+      }
+    }
+
     // Single character tokens (but check for arrows first)
     const singleCharTokens: { [key: string]: TokenType } = {
       '[': TokenType.BRACKET_OPEN,
@@ -194,7 +275,7 @@ export class Lexer {
             type: TokenType.THICK_ARROW,
             value: arrowValue,
             line: this.line,
-            column: this.column - arrowValue.length + 1,
+            column: this.column - arrowValue.length,
             position: this.position - arrowValue.length
           };
         }
@@ -226,6 +307,23 @@ export class Lexer {
       return token;
     }
 
+    // Sequence-only arrows: cross (-x, --x), async (-), --)) and bidirectional (<<->>, <<-->>)
+    if (this.sequenceMode) {
+      const sequenceMatch = /^(?:<<--?>>|--?[x)])/.exec(this.input.slice(this.position, this.position + 6));
+      if (sequenceMatch) {
+        const arrowValue = sequenceMatch[0];
+        this.position += arrowValue.length;
+        this.column += arrowValue.length;
+        return {
+          type: TokenType.SEQUENCE_ARROW,
+          value: arrowValue,
+          line: this.line,
+          column: this.column - arrowValue.length,
+          position: this.position - arrowValue.length
+        };
+      }
+    }
+
     // Arrows (check longer sequences first)
     // Check for dotted arrows: -.-> or -.->>
     if (char === '-' && this.position + 3 < this.input.length && 
@@ -247,7 +345,7 @@ export class Lexer {
         type: arrowType,
         value: arrowValue,
         line: this.line,
-        column: this.column - arrowValue.length + 1,
+        column: this.column - arrowValue.length,
         position: this.position - arrowValue.length
       };
     }
@@ -272,7 +370,7 @@ export class Lexer {
         type: arrowType,
         value: arrowValue,
         line: this.line,
-        column: this.column - arrowValue.length + 1,
+        column: this.column - arrowValue.length,
         position: this.position - arrowValue.length
       };
     }
@@ -296,7 +394,7 @@ export class Lexer {
         type: arrowType,
         value: arrowValue,
         line: this.line,
-        column: this.column - arrowValue.length + 1,
+        column: this.column - arrowValue.length,
         position: this.position - arrowValue.length
       };
     }
@@ -334,24 +432,82 @@ export class Lexer {
       position: this.position
     };
     this.position += charLength;
-    this.column++;
+    this.column += charLength;
+    return token;
+  }
+
+  private readFlowchartLink(): TokenStart | null {
+    const lineEnd = this.input.indexOf('\n', this.position);
+    const rest = this.input.slice(this.position, lineEnd === -1 ? this.input.length : lineEnd);
+    const previous = this.position > 0 ? this.input[this.position - 1] : ' ';
+
+    // Optional start marker, then a normal, thick, dotted or invisible stroke with an optional head.
+    // The leading '-' of a dotted stroke is optional so the closing half of "-. text .->" also matches.
+    let match = /^([<xo])?(-{2,}[>xo]|-{3,}|={2,}[>xo]|={3,}|-?\.+-[>xo]?|~{3,})/.exec(rest);
+    let type: TokenType;
+    if (match) {
+      const [value, marker, stroke] = match;
+      const head = stroke[stroke.length - 1];
+      // A start marker only makes a bidirectional link when it mirrors the head (<-->, x--x, o--o). An x or o
+      // marker must also start a new word, otherwise it is a node id such as x in x-->y; < never is
+      if (marker && ((marker !== '<' && !/\s/.test(previous)) || head !== { '<': '>', x: 'x', o: 'o' }[marker])) {
+        return null;
+      }
+      // -->> and ==>> are handled by the arrow rules below
+      if (head === '>' && rest[value.length] === '>') {
+        return null;
+      }
+      type = stroke.startsWith('~') ? TokenType.INVISIBLE_LINK
+        : stroke.startsWith('=') ? TokenType.THICK_ARROW
+        : stroke.includes('.') ? TokenType.DOTTED_ARROW
+        : TokenType.ARROW;
+    } else {
+      match = /^([<xo])?(--|==|-\.)(?=\s)/.exec(rest);
+      if (!match || (match[1] && match[1] !== '<' && !/\s/.test(previous))) {
+        return null;
+      }
+      type = TokenType.LINK_START;
+    }
+
+    const value = match[0];
+    const token = {
+      type,
+      value,
+      line: this.line,
+      column: this.column,
+      position: this.position
+    };
+    this.position += value.length;
+    this.column += value.length;
     return token;
   }
 
-  private readComment(): Token {
+  private endsLine(position: number): boolean {
+    // A lone carriage return (old Mac line ending) also ends a line, so line-based statements stay apart
+    return this.input[position] === '\n' || (this.input[position] === '\r' && this.input[position + 1] !== '\n');
+  }
+
+  private leadingIndent(position: number): number | undefined {
+    // Indentation is only meaningful for the first token on a line
+    const lineStart = Math.max(this.input.lastIndexOf('\n', position - 1), this.input.lastIndexOf('\r', position - 1)) + 1;
+    const prefix = this.input.slice(lineStart, position);
+    return /^[ \t]*$/.test(prefix) ? prefix.length : undefined;
+  }
+
+  private readComment(): TokenStart {
     const start = this.position;
     const startLine = this.line;
     const startColumn = this.column;
     this.position += 2; // Skip %%
     this.column += 2;
 
-    while (this.position < this.input.length && this.input[this.position] !== '\n') {
+    while (this.position < this.input.length && !this.endsLine(this.position)) {
       this.position++;
       this.column++;
     }
 
-    // Consume the newline if present
-    if (this.position < this.input.length && this.input[this.position] === '\n') {
+    // Consume the line break if present
+    if (this.position < this.input.length) {
       this.position++;
       this.line++;
       this.column = 1;
@@ -366,8 +522,10 @@ export class Lexer {
     };
   }
 
-  private readDirective(): Token {
+  private readDirective(): TokenStart {
     const start = this.position;
+    const startLine = this.line;
+    const startColumn = this.column;
     this.position += 3; // Skip %%{
     this.column += 3;
 
@@ -380,13 +538,14 @@ export class Lexer {
         braceCount++;
       } else if (char === '}') {
         braceCount--;
-      } else if (char === '\n') {
+      }
+
+      if (char === '\n') {
         this.line++;
         this.column = 1;
       } else {
         this.column++;
       }
-      
       this.position++;
     }
 
@@ -401,15 +560,45 @@ export class Lexer {
     return {
       type: TokenType.DIRECTIVE,
       value: this.input.slice(start, this.position),
-      line: this.line,
-      column: this.column,
+      line: startLine,
+      column: startColumn,
+      position: start
+    };
+  }
+
+  private readFrontmatter(): TokenStart | null {
+    const match = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?=\r?\n|$)/.exec(this.input.slice(this.position));
+    if (!match) {
+      return null;
+    }
+
+    const start = this.position;
+    const startLine = this.line;
+    const startColumn = this.column;
+    for (const char of match[0]) {
+      if (char === '\n') {
+        this.line++;
+        this.column = 1;
+      } else if (char !== '\r') {
+        this.column++;
+      }
+    }
+    this.position += match[0].length;
+
+    return {
+      type: TokenType.FRONTMATTER,
+      value: match[0],
+      line: startLine,
+      column: startColumn,
       position: start
     };
   }
 
-  private readString(): Token {
+  private readString(): TokenStart {
     const quote = this.input[this.position];
     const start = this.position;
+    const startLine = this.line;
+    const startColumn = this.column;
     this.position++;
     this.column++;
 
@@ -431,14 +620,15 @@ export class Lexer {
     return {
       type: TokenType.STRING,
       value: this.input.slice(start, this.position),
-      line: this.line,
-      column: this.column,
+      line: startLine,
+      column: startColumn,
       position: start
     };
   }
 
-  private readNumber(): Token {
+  private readNumber(): TokenStart {
     const start = this.position;
+    const startColumn = this.column;
     
     while (this.position < this.input.length && /\d/.test(this.input[this.position])) {
       this.position++;
@@ -449,13 +639,14 @@ export class Lexer {
       type: TokenType.NUMBER,
       value: this.input.slice(start, this.position),
       line: this.line,
-      column: this.column,
+      column: startColumn,
       position: start
     };
   }
 
-  private readIdentifier(): Token {
+  private readIdentifier(): TokenStart {
     const start = this.position;
+    const startColumn = this.column;
     
     while (this.position < this.input.length && /[a-zA-Z0-9_'-]/.test(this.input[this.position])) {
       // Don't consume hyphens that might be part of arrows
@@ -468,6 +659,14 @@ export class Lexer {
           this.input[this.position + 1] === '-' && this.input[this.position + 2] === '>') {
         break;
       }
+      // Don't consume hyphens that start flowchart links such as --- or -.-
+      if (this.input[this.position] === '-' && /^-[-.]/.test(this.input.slice(this.position, this.position + 2))) {
+        break;
+      }
+      // Don't consume hyphens that start cross or async sequence arrows
+      if (this.sequenceMode && /^--?[x)]/.test(this.input.slice(this.position, this.position + 3))) {
+        break;
+      }
       this.position++;
       this.column++;
     }
@@ -509,7 +708,7 @@ export class Lexer {
       type,
       value, // Keep original case for all tokens
       line: this.line,
-      column: this.column,
+      column: startColumn,
       position: start
     };
   }
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import { LanguageServer, MessageReader, encodeMessage } from './index.js';
+
+const server = new LanguageServer(
+  message => process.stdout.write(encodeMessage(message)),
+  code => process.exit(code)
+);
+const reader = new MessageReader(json => {
+  // One bad message must not take the server down
+  try {
+    server.receive(json);
+  } catch (error) {
+    process.stderr.write(`merval-lsp: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+  }
+});
+
+process.stdin.on('data', (chunk: Buffer) => reader.push(chunk));
+process.stdin.on('end', () => process.exit(0));
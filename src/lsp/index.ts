@@ -0,0 +1,360 @@
+import { validateMermaid, validateMarkdown } from '../index.js';
+import { extractMermaidBlocks, mapToDocument, positionAt, MermaidBlock } from '../markdown/index.js';
+import { collectNodes } from '../rules/index.js';
+import { ASTNode, FlowchartElement, FlowchartNode, Severity, ValidationError } from '../ast/index.js';
+
+export interface LspMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface LspPosition {
+  line: number;
+  character: number;
+}
+
+interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: LspRange;
+  selectionRange: LspRange;
+  children: DocumentSymbol[];
+}
+
+interface OpenDocument {
+  uri: string;
+  text: string;
+  kind: 'mermaid' | 'markdown';
+  findings: ValidationError[];
+}
+
+// JSON-RPC and LSP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const SERVER_NOT_INITIALIZED = -32002;
+
+const DIAGNOSTIC_SEVERITY: { [severity in Severity]: number } = { error: 1, warning: 2, info: 3 };
+const SYMBOL_KIND = { module: 2, namespace: 3, class: 5, object: 19 };
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+/**
+ * Language server for Mermaid files and mermaid blocks in Markdown. It publishes diagnostics on open and change,
+ * offers the fixes attached to findings as quick fixes, and lists diagram nodes as document symbols
+ */
+export class LanguageServer {
+  private documents = new Map<string, OpenDocument>();
+  private initialized = false;
+  private shuttingDown = false;
+
+  /**
+   * @param send - Writes a message to the client
+   * @param exit - Called on the exit notification with the process exit code
+   */
+  constructor(private send: (message: LspMessage) => void, private exit: (code: number) => void = () => {}) {}
+
+  /**
+   * Handles one message body as received from the client
+   */
+  receive(json: string): void {
+    let message: LspMessage;
+    try {
+      message = JSON.parse(json);
+    } catch {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Invalid JSON' } });
+      return;
+    }
+    if (!isObject(message)) {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Expected a JSON-RPC message object' } });
+      return;
+    }
+    this.handle(message);
+  }
+
+  /**
+   * Handles one parsed message. Requests with malformed params are answered with InvalidParams;
+   * malformed notifications are ignored
+   */
+  handle(message: LspMessage): void {
+    const { id, method, params } = message;
+    if (typeof method !== 'string') return;
+    const isRequest = id !== undefined;
+
+    if (!this.initialized && method !== 'initialize' && method !== 'exit') {
+      if (isRequest) this.respondError(id, SERVER_NOT_INITIALIZED, 'Server not initialized');
+      return;
+    }
+
+    switch (method) {
+      case 'initialize':
+        this.initialized = true;
+        this.respond(id, {
+          capabilities: {
+            textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+            codeActionProvider: { codeActionKinds: ['quickfix'] },
+            documentSymbolProvider: true
+          },
+          serverInfo: { name: 'merval' }
+        });
+        return;
+      case 'shutdown':
+        this.shuttingDown = true;
+        this.respond(id, null);
+        return;
+      case 'exit':
+        this.exit(this.shuttingDown ? 0 : 1);
+        return;
+      case 'textDocument/didOpen': {
+        const textDocument = isObject(params) && isObject(params.textDocument) ? params.textDocument : undefined;
+        const uri = documentUri(params);
+        if (!textDocument || uri === undefined || typeof textDocument.text !== 'string') return;
+        const kind = documentKind(uri, typeof textDocument.languageId === 'string' ? textDocument.languageId : '');
+        if (kind) this.update({ uri, text: textDocument.text, kind, findings: [] });
+        return;
+      }
+      case 'textDocument/didChange': {
+        const uri = documentUri(params);
+        const document = uri === undefined ? undefined : this.documents.get(uri);
+        const changes = isObject(params) && Array.isArray(params.contentChanges) ? params.contentChanges : [];
+        // Full sync: the last change holds the whole text
+        const last: unknown = changes[changes.length - 1];
+        if (document && isObject(last) && typeof last.text === 'string') this.update({ ...document, text: last.text });
+        return;
+      }
+      case 'textDocument/didClose': {
+        const uri = documentUri(params);
+        if (uri !== undefined && this.documents.delete(uri)) {
+          this.notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+        }
+        return;
+      }
+      case 'textDocument/codeAction': {
+        const uri = documentUri(params);
+        const range = isObject(params) ? params.range : undefined;
+        if (uri === undefined || !isRange(range)) {
+          this.respondError(id, INVALID_PARAMS, 'Expected textDocument.uri and range');
+          return;
+        }
+        this.respond(id, this.codeActions(uri, range));
+        return;
+      }
+      case 'textDocument/documentSymbol': {
+        const uri = documentUri(params);
+        if (uri === undefined) {
+          this.respondError(id, INVALID_PARAMS, 'Expected textDocument.uri');
+          return;
+        }
+        this.respond(id, this.documentSymbols(uri));
+        return;
+      }
+    }
+
+    if (isRequest) this.respondError(id, METHOD_NOT_FOUND, `Unhandled method ${method}`);
+  }
+
+  private update(document: OpenDocument): void {
+    const result = document.kind === 'markdown' ? validateMarkdown(document.text) : validateMermaid(document.text);
+    document.findings = [...result.errors, ...result.warnings];
+    this.documents.set(document.uri, document);
+    this.notify('textDocument/publishDiagnostics', {
+      uri: document.uri,
+      diagnostics: document.findings.map(toDiagnostic)
+    });
+  }
+
+  private codeActions(uri: string, range: LspRange): object[] {
+    const document = this.documents.get(uri);
+    if (!document) return [];
+
+    return document.findings
+      .filter(finding => finding.fix && finding.line - 1 >= range.start.line && finding.line - 1 <= range.end.line)
+      .map(finding => ({
+        title: finding.suggestion ?? `Fix ${finding.code}`,
+        kind: 'quickfix',
+        diagnostics: [toDiagnostic(finding)],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [uri]: [{
+              range: {
+                start: toLspPosition(finding.fix!.range.start.line, finding.fix!.range.start.column),
+                end: toLspPosition(finding.fix!.range.end.line, finding.fix!.range.end.column)
+              },
+              newText: finding.fix!.text
+            }]
+          }
+        }
+      }));
+  }
+
+  private documentSymbols(uri: string): DocumentSymbol[] {
+    const document = this.documents.get(uri);
+    if (!document) return [];
+
+    if (document.kind === 'mermaid') {
+      const { ast } = validateMermaid(document.text);
+      return ast ? diagramSymbols(ast, (line, column) => toLspPosition(line, column)) : [];
+    }
+
+    // One symbol per diagram, with the diagram's nodes nested under it
+    const { blocks } = validateMarkdown(document.text);
+    return extractMermaidBlocks(document.text).map((block, index) => {
+      const { result } = blocks[index];
+      const start = positionAt(document.text, block.offsets[0]);
+      const end = positionAt(document.text, block.offsets[block.offsets.length - 1]);
+      const range = { start: toLspPosition(start.line, start.column), end: toLspPosition(end.line, end.column) };
+      return {
+        name: result.diagramType,
+        detail: 'mermaid',
+        kind: SYMBOL_KIND.module,
+        range,
+        selectionRange: { start: range.start, end: range.start },
+        children: result.ast ? diagramSymbols(result.ast, blockMapper(document.text, block)) : []
+      };
+    });
+  }
+
+  private respond(id: LspMessage['id'], result: unknown): void {
+    this.send({ jsonrpc: '2.0', id, result });
+  }
+
+  private respondError(id: LspMessage['id'], code: number, message: string): void {
+    this.send({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+
+  private notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+}
+
+/**
+ * Splits a byte stream into LSP message bodies using Content-Length headers
+ */
+export class MessageReader {
+  private buffer = Buffer.alloc(0);
+
+  constructor(private onMessage: (json: string) => void) {}
+
+  push(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+      const length = /Content-Length:\s*(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString('ascii'));
+      if (!length) {
+        // Drop a malformed header block and look for the next message
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (this.buffer.length < bodyEnd) return;
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      this.onMessage(body);
+    }
+  }
+}
+
+/**
+ * Frames a message for the wire
+ */
+export function encodeMessage(message: LspMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function documentUri(params: unknown): string | undefined {
+  // textDocument.uri, which every text document method carries
+  if (!isObject(params) || !isObject(params.textDocument)) return undefined;
+  const { uri } = params.textDocument;
+  return typeof uri === 'string' ? uri : undefined;
+}
+
+function isPosition(value: unknown): value is LspPosition {
+  return isObject(value) && typeof value.line === 'number' && typeof value.character === 'number';
+}
+
+function isRange(value: unknown): value is LspRange {
+  return isObject(value) && isPosition(value.start) && isPosition(value.end);
+}
+
+function documentKind(uri: string, languageId: string): OpenDocument['kind'] | undefined {
+  const path = uri.toLowerCase();
+  if (languageId === 'markdown' || languageId === 'mdx' || /\.(md|mdx|markdown)$/.test(path)) return 'markdown';
+  if (languageId === 'mermaid' || /\.(mmd|mermaid)$/.test(path)) return 'mermaid';
+  return undefined;
+}
+
+function toDiagnostic(finding: ValidationError): object {
+  const start = toLspPosition(finding.range.start.line, finding.range.start.column);
+  const end = toLspPosition(finding.range.end.line, finding.range.end.column);
+  // Findings about a missing token have an empty range; underline one character so editors still show them
+  const empty = comparePositions(start, end) === 0;
+  return {
+    range: { start, end: empty ? { line: start.line, character: start.character + 1 } : end },
+    severity: DIAGNOSTIC_SEVERITY[finding.severity],
+    code: finding.code,
+    source: 'merval',
+    message: finding.message
+  };
+}
+
+function toLspPosition(line: number, column: number): LspPosition {
+  // Findings are 1-based, LSP positions 0-based
+  return { line: Math.max(line - 1, 0), character: Math.max(column - 1, 0) };
+}
+
+function comparePositions(a: LspPosition, b: LspPosition): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+function blockMapper(text: string, block: MermaidBlock): (line: number, column: number) => LspPosition {
+  return (line, column) => {
+    const position = mapToDocument(text, block, line, column);
+    return toLspPosition(position.line, position.column);
+  };
+}
+
+function diagramSymbols(ast: ASTNode, map: (line: number, column: number) => LspPosition): DocumentSymbol[] {
+  const symbol = (name: string, kind: number, at: ASTNode, detail?: string, children: DocumentSymbol[] = []): DocumentSymbol => {
+    const start = map(at.line, at.column);
+    const selectionRange = { start, end: map(at.line, at.column + name.length) };
+    // A symbol's range covers the node's source and has to enclose its name and its children's, e.g. a subgraph's nodes
+    const end = [map(at.range.end.line, at.range.end.column), ...children.map(child => child.range.end)]
+      .reduce((latest, position) => comparePositions(position, latest) > 0 ? position : latest, selectionRange.end);
+    return { name, ...(detail && { detail }), kind, range: { start, end }, selectionRange, children };
+  };
+
+  if (ast.type === 'flowchart') {
+    // A node belongs to the subgraph where it first appears
+    const seen = new Set<string>();
+    const visit = (elements: FlowchartElement[]): DocumentSymbol[] => elements.flatMap(element => {
+      if (element.type === 'subgraph') {
+        return [symbol(element.id ?? 'subgraph', SYMBOL_KIND.namespace, element, element.label, visit(element.children ?? []))];
+      }
+      if (element.type !== 'node' || !element.id || seen.has(element.id)) return [];
+      seen.add(element.id);
+      return [symbol(element.id, SYMBOL_KIND.object, element, element.label)];
+    });
+    return visit((ast as FlowchartNode).nodes);
+  }
+
+  const kind = ast.type === 'class' ? SYMBOL_KIND.class : SYMBOL_KIND.object;
+  return [...collectNodes(ast)].map(([id, at]) => symbol(id, kind, at));
+}
@@ -0,0 +1,129 @@
+import { Position } from '../ast/index.js';
+
+export interface MermaidBlock {
+  kind: 'fence' | 'html';
+  code: string;
+  // Document offset of every character of code, plus one entry for the end of the block
+  offsets: number[];
+  // Offset of the fence or opening tag, used for findings about the block itself
+  openerOffset: number;
+  closed: boolean;
+}
+
+const ENTITIES: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Finds mermaid diagrams in Markdown or MDX: ``` and ~~~ fences tagged mermaid (at any indentation, e.g. in
+ * lists) and <pre>/<div> elements whose class or className includes mermaid
+ * @param text - The Markdown document
+ * @returns Each diagram's code with a map back to document offsets
+ */
+export function extractMermaidBlocks(text: string): MermaidBlock[] {
+  const blocks: MermaidBlock[] = [];
+  const lines: { text: string; offset: number }[] = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ text: raw.replace(/\r$/, ''), offset });
+    offset += raw.length + 1;
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^([ \t]*)(`{3,}|~{3,})[ \t]*([^`\s]*)/.exec(line.text);
+    if (fence) {
+      const [, indent, marker, info] = fence;
+      const closer = new RegExp(`^[ \\t]*${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      let end = i + 1;
+      while (end < lines.length && !closer.test(lines[end].text)) end++;
+
+      // Other fences are skipped whole so that diagrams shown as examples inside them are ignored
+      if (info.toLowerCase() === 'mermaid') {
+        const block: MermaidBlock = { kind: 'fence', code: '', offsets: [], openerOffset: line.offset + indent.length, closed: end < lines.length };
+        for (let j = i + 1; j < end; j++) {
+          // Content lines lose up to as much indentation as the fence itself has
+          const content = lines[j];
+          const strip = Math.min(indent.length, /^[ \t]*/.exec(content.text)![0].length);
+          if (j > i + 1) {
+            block.code += '\n';
+            block.offsets.push(lines[j - 1].offset + lines[j - 1].text.length);
+          }
+          for (let k = strip; k < content.text.length; k++) {
+            block.code += content.text[k];
+            block.offsets.push(content.offset + k);
+          }
+        }
+        // The code ends with the last content line, so insertions at its end stay inside the fence
+        block.offsets.push(lines[end - 1].offset + lines[end - 1].text.length);
+        blocks.push(block);
+      }
+      i = end;
+      continue;
+    }
+
+    const tagPattern = /<(pre|div)\b[^>]*?\bclass(?:Name)?\s*=\s*(["'])(?:[^"']*\s)?mermaid(?:\s[^"']*)?\2[^>]*>/i;
+    const tag = tagPattern.exec(line.text);
+    if (tag) {
+      const start = line.offset + tag.index + tag[0].length;
+      const closeMatch = new RegExp(`</${tag[1]}\\s*>`, 'i').exec(text.slice(start));
+      const end = closeMatch ? start + closeMatch.index : text.length;
+      const block: MermaidBlock = { kind: 'html', code: '', offsets: [], openerOffset: line.offset + tag.index, closed: closeMatch !== null };
+
+      // HTML content may escape characters, e.g. A --&gt; B
+      for (let k = start; k < end; k++) {
+        const entity = text[k] === '&' ? /^&(#\d+|#x[0-9a-f]+|[a-z]+);/i.exec(text.slice(k, k + 12)) : null;
+        const name = entity?.[1];
+        const decoded = name === undefined ? undefined
+          : name.startsWith('#x') || name.startsWith('#X') ? String.fromCodePoint(parseInt(name.slice(2), 16))
+          : name.startsWith('#') ? String.fromCodePoint(parseInt(name.slice(1), 10))
+          : ENTITIES[name.toLowerCase()];
+        if (entity && decoded !== undefined) {
+          block.code += decoded;
+          block.offsets.push(k);
+          k += entity[0].length - 1;
+        } else if (text[k] !== '\r') {
+          block.code += text[k];
+          block.offsets.push(k);
+        }
+      }
+      block.offsets.push(end);
+      blocks.push(block);
+
+      // Continue scanning after the closing tag
+      while (i + 1 < lines.length && lines[i + 1].offset <= end) i++;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Maps a line and column reported for a block's code back to the document
+ * @param text - The Markdown document the block was extracted from
+ * @param block - The block whose code was validated
+ * @param line - 1-based line within the block's code
+ * @param column - 1-based column within the block's code
+ * @returns The corresponding document position
+ */
+export function mapToDocument(text: string, block: MermaidBlock, line: number, column: number): Position {
+  let codeOffset = 0;
+  for (let current = 1; current < line; current++) {
+    const next = block.code.indexOf('\n', codeOffset);
+    if (next === -1) break;
+    codeOffset = next + 1;
+  }
+  codeOffset = Math.min(codeOffset + column - 1, block.code.length);
+  return positionAt(text, block.offsets[codeOffset]);
+}
+
+/**
+ * Converts a document offset into a 1-based line and column
+ * @param text - The document
+ * @param offset - 0-based offset into the document
+ * @returns The position of the offset
+ */
+export function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1, offset };
+}
@@ -3,42 +3,106 @@ import {
   ASTNode, 
   ValidationError, 
   ValidationResult, 
+  ValidationOptions,
+  Severity,
+  LintContext,
+  Position,
+  Range,
+  TextEdit,
   FlowchartNode, 
   FlowchartElement, 
+  FlowchartShape,
+  StyleProperty,
+  ClassDefStatement,
+  ClassAssignment,
+  StyleStatement,
+  LinkStyleStatement,
   SequenceNode, 
   ParticipantNode, 
   MessageNode, 
+  SequenceBlock,
+  SequenceBranch,
+  ActivationNode,
+  SequenceNote,
+  ParticipantLifecycle,
   XYChartNode,
   BlockDiagramNode,
-  BlockElement
+  BlockElement,
+  PieNode,
+  PieSlice,
+  GanttNode,
+  GanttSection,
+  GanttTask,
+  ERDiagramNode,
+  EREntity,
+  ERAttribute,
+  ERRelationship,
+  ERCardinality,
+  ClassDiagramNode,
+  ClassDefinition,
+  ClassMember,
+  ClassRelation,
+  ClassNamespace,
+  StateDiagramNode,
+  StateDefinition,
+  StateRegion,
+  StateNote,
+  GitgraphNode,
+  GitCommand,
+  MindmapNode,
+  MindmapItem,
+  TimelineNode,
+  TimelineSection,
+  TimelinePeriod,
+  JourneyNode,
+  JourneySection,
+  JourneyTask
 } from '../ast/index.js';
 
 export class Parser {
+  private input: string;
   private tokens: Token[];
   private position: number = 0;
   private errors: ValidationError[] = [];
+  private warnings: ValidationError[] = [];
   private linkCount: number = 0;
+  private flowchartStyling: Pick<FlowchartNode, 'classDefs' | 'classAssignments' | 'styles' | 'linkStyles'> = {
+    classDefs: [], classAssignments: [], styles: [], linkStyles: []
+  };
+  private frontmatterTitle: string | undefined;
+  private mainBranchName: string | undefined;
+  private options: ValidationOptions;
+  private disabledRules: Map<number, string[]>;
 
-  constructor(input: string) {
+  constructor(input: string, options: ValidationOptions = {}) {
+    this.input = input;
+    this.options = options;
     const lexer = new Lexer(input);
     this.tokens = lexer.tokenize();
+    this.disabledRules = this.collectDisableComments();
   }
 
   parse(): ValidationResult {
     this.errors = [];
+    this.warnings = [];
     this.position = 0;
     this.linkCount = 0;
+    this.frontmatterTitle = undefined;
+    this.mainBranchName = undefined;
 
     try {
       const ast = this.parseDiagram();
       
       // Check for multiple diagram types
       this.validateSingleDiagramType();
+
+      this.runLintRules(ast);
       
       return {
         isValid: this.errors.length === 0,
         diagramType: this.getDiagramType(),
         errors: this.errors,
+        warnings: this.warnings,
         ast
       };
     } catch (error) {
@@ -46,14 +110,24 @@ export class Parser {
       return {
         isValid: false,
         diagramType: 'unknown',
-        errors: this.errors
+        errors: this.errors,
+        warnings: this.warnings
       };
     }
   }
 
   private parseDiagram(): ASTNode {
-    // Skip any directives at the beginning
-    while (!this.isAtEnd() && this.currentToken().type === TokenType.DIRECTIVE) {
+    // Skip any frontmatter and directives at the beginning; a frontmatter title applies to the diagram, and
+    // gitGraph.mainBranchName from either renames the git graph's first branch
+    while (!this.isAtEnd() && (this.currentToken().type === TokenType.DIRECTIVE || this.currentToken().type === TokenType.FRONTMATTER)) {
+      const title = this.currentToken().type === TokenType.FRONTMATTER && /^title:[ \t]*(.*?)[ \t]*$/m.exec(this.currentToken().value);
+      if (title && title[1]) {
+        this.frontmatterTitle = title[1].replace(/^(["'])(.*)\1$/, '$2');
+      }
+      const mainBranch = /\bmainBranchName["']?\s*:\s*(?:"([^"]*)"|'([^']*)'|([^\s,"'}]+))/.exec(this.currentToken().value);
+      if (mainBranch) {
+        this.mainBranchName = mainBranch[1] ?? mainBranch[2] ?? mainBranch[3];
+      }
       this.advance();
     }
     
@@ -87,7 +161,7 @@ export class Parser {
       return this.parseBlockDiagram();
     } else {
       this.addError(token, `Unsupported diagram type: ${token.value}`);
-      return { type: 'unknown', line: token.line, column: token.column };
+      return { type: 'unknown', line: token.line, column: token.column, range: this.rangeFrom(token) };
     }
   }
 
@@ -95,6 +169,7 @@ export class Parser {
     const startToken = this.currentToken();
     this.advance(); // Skip graph/flowchart
     this.linkCount = 0; // Reset link count for this flowchart
+    this.flowchartStyling = { classDefs: [], classAssignments: [], styles: [], linkStyles: [] };
 
     // Parse direction (TD, LR, etc.)
     let direction: string | undefined;
@@ -122,7 +197,9 @@ export class Parser {
       }
       
       const node = this.parseFlowchartElement();
-      if (node) {
+      if (Array.isArray(node)) {
+        nodes.push(...node);
+      } else if (node) {
         if ((node as any).type === 'processed') {
           // This was a special statement (classDef, etc.) that was already processed
           // Don't add it to nodes and don't advance
@@ -135,57 +212,60 @@ export class Parser {
       }
     }
 
-    // Validate that nodes are properly connected
-    this.validateFlowchartConnections(nodes);
+    // Classes and styles may refer to nodes and classDefs declared anywhere in the diagram
+    this.validateFlowchartStyling(nodes);
 
     return {
       type: 'flowchart',
       line: startToken.line,
       column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
       direction,
-      nodes
+      nodes,
+      ...this.flowchartStyling
     };
   }
 
-  private parseFlowchartElement(): FlowchartElement | null {
+  private parseFlowchartElement(): FlowchartElement | FlowchartElement[] | null {
     const token = this.currentToken();
     
     // Check for unmatched 'end' keyword (end without corresponding subgraph)
     if (token.type === TokenType.IDENTIFIER && token.value.toLowerCase() === 'end') {
       this.addError(token, 'Unexpected "end" keyword - found end without matching subgraph', 'UNMATCHED_END', 'Remove the end keyword or add a corresponding subgraph');
       this.advance();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     }
     
     // Check for special keywords first
     if (token.value === 'classDef') {
       // Parse classDef statements
-      this.parseClassDef();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      this.flowchartStyling.classDefs.push(this.parseClassDef());
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'class') {
       // Parse class assignments
-      this.parseClassAssignment();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      this.flowchartStyling.classAssignments.push(this.parseClassAssignment());
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'linkStyle') {
       // Parse linkStyle statements
-      this.parseLinkStyle();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      this.flowchartStyling.linkStyles.push(this.parseLinkStyle());
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'style') {
       // Parse style statements
-      this.parseStyle();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      this.flowchartStyling.styles.push(this.parseStyle());
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'click') {
       // Parse click statements
       this.parseClickStatement();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'note') {
       // Parse note statements
       this.parseNoteStatement();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'direction') {
       // Parse direction statements
       this.parseDirectionStatement();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.value === 'title') {
       // Title directive is not supported in flowcharts - reject it to match Mermaid CLI behavior
       this.addError(token, 
@@ -194,19 +274,12 @@ export class Parser {
         'Remove the title directive - flowcharts do not support titles');
       // Skip the title directive to continue parsing
       this.skipTitleDirective();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.type === TokenType.IDENTIFIER) {
-      // Check if this is a node (followed by brackets, parens, or braces)
-      const nextToken = this.peekToken();
-      if (nextToken && (nextToken.type === TokenType.BRACKET_OPEN || 
-                       nextToken.type === TokenType.PAREN_OPEN || 
-                       nextToken.type === TokenType.BRACE_OPEN)) {
-        return this.parseNode();
-      } else {
-        // This might be a standalone identifier or part of an arrow
-        return this.parseNode();
-      }
-    } else if (token.type === TokenType.ARROW || token.type === TokenType.DOTTED_ARROW || token.type === TokenType.THICK_ARROW) {
+      // A node, possibly grouped with '&' and chained through links
+      return this.parseNodeStatement();
+    } else if (token.type === TokenType.ARROW || token.type === TokenType.DOTTED_ARROW || token.type === TokenType.THICK_ARROW ||
+               token.type === TokenType.INVISIBLE_LINK || token.type === TokenType.LINK_START) {
       return this.parseArrow();
     } else if (token.type === TokenType.SUBGRAPH) {
       return this.parseSubgraph();
@@ -214,14 +287,15 @@ export class Parser {
       // Check if this is truly an inline comment (has content before it on the same line)
       // Inline comments are not supported by Mermaid CLI for strict compatibility
       if (this.isInlineComment(token)) {
-        this.addError(token, 'Inline comments are not supported', 'INLINE_COMMENT_NOT_SUPPORTED', 'Move comment to its own line');
+        this.addWarning(token, 'Inline comments are not supported', 'INLINE_COMMENT_NOT_SUPPORTED', 'Move comment to its own line', 
+          this.moveCommentAboveLine(token));
       }
       // Skip comments - they don't need to be parsed as elements
       this.advance();
-      return { type: 'processed', line: token.line, column: token.column } as any;    } else if (token.type === TokenType.DIRECTIVE) {
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;    } else if (token.type === TokenType.DIRECTIVE) {
       // Skip directives - they are configuration, not diagram elements
       this.advance();
-      return { type: 'processed', line: token.line, column: token.column } as any;
+      return { type: 'processed', line: token.line, column: token.column, range: this.rangeFrom(token) } as any;
     } else if (token.type === TokenType.SEMICOLON) {
       // Skip semicolons
       this.advance();
@@ -281,6 +355,7 @@ export class Parser {
         type: 'node',
         line: idToken.line,
         column: idToken.column,
+        range: this.rangeFrom(idToken),
         id: '',
         shape: 'rect'
       };
@@ -290,142 +365,384 @@ export class Parser {
     this.advance();
 
     let label: string | undefined;
-    let shape: 'rect' | 'round' | 'diamond' | 'circle' = 'rect';
+    let shape: FlowchartShape = 'rect';
 
     // Check if there's a shape/label after the node ID
-    if (this.currentToken().type === TokenType.BRACKET_OPEN) {
-      this.advance(); // Skip [
-      
-      // Parse label content - handle multiple identifiers and numbers as a single label
-      if (this.currentToken().type === TokenType.STRING) {
-        label = this.currentToken().value.slice(1, -1); // Remove quotes
-        this.advance();
-      } else if (this.currentToken().type === TokenType.IDENTIFIER || this.currentToken().type === TokenType.NUMBER) {
-        label = this.collectIdentifiersAsLabel(true);
+    const next = this.currentToken();
+    const adjacent = next.position === idToken.position + idToken.value.length;
+    if (adjacent && next.value === '@' && this.input[next.position + 1] === '{') {
+      ({ label, shape } = this.parseNodeShapeData(idToken, next));
+    } else if (next.type === TokenType.BRACKET_OPEN || next.type === TokenType.PAREN_OPEN || 
+               next.type === TokenType.DOUBLE_PAREN_OPEN || next.type === TokenType.BRACE_OPEN || 
+               (adjacent && next.value === '>')) {
+      ({ label, shape } = this.parseNodeShape(idToken, next));
+    }
+
+    return {
+      type: 'node',
+      line: idToken.line,
+      column: idToken.column,
+      range: this.rangeFrom(idToken),
+      id,
+      label,
+      shape
+    };
+  }
+
+  private parseNodeShape(idToken: Token, openToken: Token): { label?: string; shape: FlowchartShape } {
+    // Longest openers first; lean and trapezoid shapes share openers and are told apart by their closer
+    const shapes: { open: string; closers: { [closer: string]: FlowchartShape } }[] = [
+      { open: '(((', closers: { ')))': 'double-circle' } },
+      { open: '((', closers: { '))': 'circle' } },
+      { open: '([', closers: { '])': 'stadium' } },
+      { open: '(', closers: { ')': 'round' } },
+      { open: '[[', closers: { ']]': 'subroutine' } },
+      { open: '[(', closers: { ')]': 'cylinder' } },
+      { open: '[/', closers: { '/]': 'lean-right', '\\]': 'trapezoid' } },
+      { open: '[\\', closers: { '\\]': 'lean-left', '/]': 'inv-trapezoid' } },
+      { open: '[', closers: { ']': 'rect' } },
+      { open: '{{', closers: { '}}': 'hexagon' } },
+      { open: '{', closers: { '}': 'diamond' } },
+      { open: '>', closers: { ']': 'asymmetric' } }
+    ];
+    const start = openToken.position;
+    const { open, closers } = shapes.find(candidate => this.input.startsWith(candidate.open, start))!;
+    const expected = Object.keys(closers);
+    const defaultShape = closers[expected[0]];
+    const slanted = open === '[/' || open === '[\\';
+
+    // Scan the label up to the first closing character, skipping quoted text
+    let end = start + open.length;
+    while (end < this.input.length && this.input[end] !== '\n') {
+      const char = this.input[end];
+      if (char === '"') {
+        const closingQuote = this.input.indexOf('"', end + 1);
+        end = closingQuote === -1 ? this.input.length : closingQuote + 1;
+        continue;
       }
-      
-      // Expect closing bracket
-      if (this.currentToken().type === TokenType.BRACKET_CLOSE) {
-        this.advance(); // Skip ]
-      } else {
-        this.addError(this.currentToken(), 'Expected closing bracket ]');
-        // Try to recover by skipping to next token
-        while (!this.isAtEnd() && this.currentToken().type !== TokenType.BRACKET_CLOSE && 
-               this.currentToken().type !== TokenType.ARROW && this.currentToken().type !== TokenType.DOTTED_ARROW && this.currentToken().type !== TokenType.EOF) {
-          this.advance();
-        }
-        if (this.currentToken().type === TokenType.BRACKET_CLOSE) {
-          this.advance();
-        }
+      if (')]}[({'.includes(char) || (slanted && '/\\'.includes(char) && this.input[end + 1] === ']')) {
+        break;
       }
-    } else if (this.currentToken().type === TokenType.PAREN_OPEN) {
-      this.advance(); // Skip (
-      shape = 'round';
-      
-      if (this.currentToken().type === TokenType.STRING) {
-        label = this.currentToken().value.slice(1, -1);
-        this.advance();
-      } else if (this.currentToken().type === TokenType.IDENTIFIER) {
-        // Collect multiple identifiers as a single label
-        const labelParts: string[] = [];
-        while (this.currentToken().type === TokenType.IDENTIFIER) {
-          labelParts.push(this.currentToken().value);
-          this.advance();
-        }
-        label = labelParts.join(' ');
+      end++;
+    }
+
+    const rawLabel = this.input.slice(start + open.length, end).trim();
+    const label = rawLabel.length > 0 ? rawLabel.replace(/^"(.*)"$/s, '$1') : undefined;
+    const closer = expected.find(candidate => this.input.startsWith(candidate, end));
+    const closerNames: { [char: string]: string } = { ']': 'bracket', ')': 'parenthesis', '}': 'brace' };
+    const closerName = closerNames[expected[0][expected[0].length - 1]];
+    const errorToken = this.tokenAtOffset(end, this.input[end] ?? '');
+
+    if (closer) {
+      this.skipToOffset(end + closer.length);
+      return { label, shape: closers[closer] };
+    }
+
+    const found = /^[)\]}\/\\]+/.exec(this.input.slice(end))?.[0];
+    if (found && !'[({'.includes(this.input[end])) {
+      this.addError(errorToken, 
+        `Expected closing ${closerName} '${expected.join("' or '")}' for ${defaultShape} node '${idToken.value}' opened with '${open}', found '${found}'`, 
+        'MISMATCHED_NODE_SHAPE', 
+        `Close the node with ${expected.map(candidate => `'${candidate}'`).join(' or ')}, e.g. ${idToken.value}${open}text${expected[0]}`);
+      // Consume the wrong closer so parsing continues after the node
+      this.skipToOffset(end + found.length);
+      return { label, shape: defaultShape };
+    }
+
+    this.addError(openToken, 
+      `Expected closing ${closerName} '${expected[0]}' for ${defaultShape} node '${idToken.value}' opened with '${open}'`, 
+      'UNCLOSED_NODE_SHAPE', 
+      `Add '${expected[0]}' after the node text, e.g. ${idToken.value}${open}text${expected[0]}`);
+    // Recover at the next link on the same line so the rest of the statement is still parsed
+    while (!this.isAtEnd() && this.currentToken().line === openToken.line && !this.isLinkToken(this.currentToken())) {
+      this.advance();
+    }
+    return { shape: defaultShape };
+  }
+
+  private parseNodeShapeData(idToken: Token, atToken: Token): { label?: string; shape: FlowchartShape } {
+    // v11 shape data: A@{ shape: cyl, label: "Database" } - may span several lines
+    const bodyStart = atToken.position + 2;
+    let end = bodyStart;
+    while (end < this.input.length && this.input[end] !== '}') {
+      if (this.input[end] === '"') {
+        const closingQuote = this.input.indexOf('"', end + 1);
+        end = closingQuote === -1 ? this.input.length : closingQuote;
       }
-      
-      if (this.currentToken().type === TokenType.PAREN_CLOSE) {
-        this.advance(); // Skip )
-      } else {
-        this.addError(this.currentToken(), 'Expected closing parenthesis )');
-        // Try to recover
-        while (!this.isAtEnd() && this.currentToken().type !== TokenType.PAREN_CLOSE && 
-               this.currentToken().type !== TokenType.ARROW && this.currentToken().type !== TokenType.DOTTED_ARROW && this.currentToken().type !== TokenType.EOF) {
-          this.advance();
-        }
-        if (this.currentToken().type === TokenType.PAREN_CLOSE) {
-          this.advance();
-        }
+      end++;
+    }
+
+    if (end >= this.input.length) {
+      this.addError(atToken, 
+        `Shape data for node '${idToken.value}' is missing its closing '}'`, 
+        'UNCLOSED_SHAPE_DATA', 
+        `Close the shape data, e.g. ${idToken.value}@{ shape: rect, label: "Text" }`);
+      this.skipToOffset(this.input.length);
+      return { shape: 'rect' };
+    }
+
+    const body = this.input.slice(bodyStart, end);
+    this.skipToOffset(end + 1);
+
+    const properties: { [key: string]: { value: string; offset: number } } = {};
+    const propertyPattern = /([\w-]+)\s*:\s*("(?:[^"\\]|\\.)*"|[^,\n]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = propertyPattern.exec(body)) !== null) {
+      properties[match[1]] = {
+        value: match[2].trim().replace(/^"(.*)"$/s, '$1'),
+        offset: bodyStart + match.index + match[0].length - match[2].length
+      };
+    }
+
+    const label = properties.label?.value;
+    if (properties.icon) {
+      return { label, shape: 'icon' };
+    }
+    if (properties.img) {
+      return { label, shape: 'image' };
+    }
+    if (!properties.shape) {
+      return { label, shape: 'rect' };
+    }
+
+    const shape = this.flowchartShapeFor(properties.shape.value);
+    if (!shape) {
+      this.addError(this.tokenAtOffset(properties.shape.offset, properties.shape.value), 
+        `Unknown node shape '${properties.shape.value}' for node '${idToken.value}'`, 
+        'UNKNOWN_NODE_SHAPE', 
+        'Use a Mermaid shape name such as rect, rounded, stadium, cyl, circle, diam, hex, lean-r, trap-b, doc or dbl-circ');
+      return { label, shape: 'rect' };
+    }
+    return { label, shape };
+  }
+
+  private flowchartShapeFor(name: string): FlowchartShape | undefined {
+    // Mermaid v11 shape names and aliases, mapped onto the shapes the classic bracket syntax produces
+    const aliases: { [name: string]: FlowchartShape } = {
+      'rect': 'rect', 'proc': 'rect', 'process': 'rect', 'rectangle': 'rect',
+      'rounded': 'round', 'event': 'round',
+      'stadium': 'stadium', 'pill': 'stadium', 'terminal': 'stadium',
+      'fr-rect': 'subroutine', 'subprocess': 'subroutine', 'subroutine': 'subroutine', 'framed-rectangle': 'subroutine',
+      'cyl': 'cylinder', 'db': 'cylinder', 'database': 'cylinder', 'cylinder': 'cylinder',
+      'circle': 'circle', 'circ': 'circle',
+      'odd': 'asymmetric',
+      'diam': 'diamond', 'decision': 'diamond', 'diamond': 'diamond', 'question': 'diamond',
+      'hex': 'hexagon', 'hexagon': 'hexagon', 'prepare': 'hexagon',
+      'lean-r': 'lean-right', 'lean-right': 'lean-right', 'in-out': 'lean-right',
+      'lean-l': 'lean-left', 'lean-left': 'lean-left', 'out-in': 'lean-left',
+      'trap-b': 'trapezoid', 'priority': 'trapezoid', 'trapezoid': 'trapezoid', 'trapezoid-bottom': 'trapezoid',
+      'trap-t': 'inv-trapezoid', 'manual': 'inv-trapezoid', 'inv-trapezoid': 'inv-trapezoid', 'trapezoid-top': 'inv-trapezoid',
+      'dbl-circ': 'double-circle', 'double-circle': 'double-circle',
+      'text': 'text',
+      'notch-rect': 'notch-rect', 'card': 'notch-rect', 'notched-rectangle': 'notch-rect',
+      'lin-rect': 'lin-rect', 'lin-proc': 'lin-rect', 'lined-process': 'lin-rect', 'lined-rectangle': 'lin-rect', 'shaded-process': 'lin-rect',
+      'sm-circ': 'sm-circ', 'small-circle': 'sm-circ', 'start': 'sm-circ',
+      'fr-circ': 'fr-circ', 'framed-circle': 'fr-circ', 'stop': 'fr-circ',
+      'fork': 'fork', 'join': 'fork',
+      'hourglass': 'hourglass', 'collate': 'hourglass',
+      'brace': 'brace', 'brace-l': 'brace', 'comment': 'brace',
+      'brace-r': 'brace-r',
+      'braces': 'braces',
+      'bolt': 'bolt', 'com-link': 'bolt', 'lightning-bolt': 'bolt',
+      'doc': 'doc', 'document': 'doc',
+      'delay': 'delay', 'half-rounded-rectangle': 'delay',
+      'h-cyl': 'h-cyl', 'das': 'h-cyl', 'horizontal-cylinder': 'h-cyl',
+      'lin-cyl': 'lin-cyl', 'disk': 'lin-cyl', 'lined-cylinder': 'lin-cyl',
+      'curv-trap': 'curv-trap', 'curved-trapezoid': 'curv-trap', 'display': 'curv-trap',
+      'div-rect': 'div-rect', 'div-proc': 'div-rect', 'divided-process': 'div-rect', 'divided-rectangle': 'div-rect',
+      'tri': 'tri', 'extract': 'tri', 'triangle': 'tri',
+      'win-pane': 'win-pane', 'internal-storage': 'win-pane', 'window-pane': 'win-pane',
+      'f-circ': 'f-circ', 'filled-circle': 'f-circ', 'junction': 'f-circ',
+      'lin-doc': 'lin-doc', 'lined-document': 'lin-doc',
+      'notch-pent': 'notch-pent', 'loop-limit': 'notch-pent', 'notched-pentagon': 'notch-pent',
+      'flip-tri': 'flip-tri', 'flipped-triangle': 'flip-tri', 'manual-file': 'flip-tri',
+      'sl-rect': 'sl-rect', 'manual-input': 'sl-rect', 'sloped-rectangle': 'sl-rect',
+      'docs': 'docs', 'documents': 'docs', 'st-doc': 'docs', 'stacked-document': 'docs',
+      'procs': 'procs', 'processes': 'procs', 'st-rect': 'procs', 'stacked-rectangle': 'procs',
+      'flag': 'flag', 'paper-tape': 'flag',
+      'bow-rect': 'bow-rect', 'stored-data': 'bow-rect', 'bow-tie-rectangle': 'bow-rect',
+      'cross-circ': 'cross-circ', 'crossed-circle': 'cross-circ', 'summary': 'cross-circ',
+      'tag-doc': 'tag-doc', 'tagged-document': 'tag-doc',
+      'tag-rect': 'tag-rect', 'tag-proc': 'tag-rect', 'tagged-process': 'tag-rect', 'tagged-rectangle': 'tag-rect'
+    };
+    return aliases[name];
+  }
+
+  private skipToOffset(offset: number): void {
+    // Advance past every token that starts before the given source offset
+    while (!this.isAtEnd() && this.currentToken().position < offset) {
+      this.advance();
+    }
+  }
+
+  private parseNodeStatement(): FlowchartElement[] {
+    // A statement is a group of nodes joined by '&', optionally linked to further groups, as in
+    // "A & B --> C & D --> E". Every source links to every target, in the order Mermaid numbers them.
+    const elements: FlowchartElement[] = [];
+    let sources = this.parseNodeGroup(elements);
+
+    while (this.isLinkToken(this.currentToken())) {
+      const arrowToken = this.currentToken();
+      const link = this.parseLink();
+      if (!link) {
+        return elements;
       }
-    } else if (this.currentToken().type === TokenType.DOUBLE_PAREN_OPEN) {
-      this.advance(); // Skip ((
-      shape = 'circle'; // Double-circle nodes
-      
-      if (this.currentToken().type === TokenType.STRING) {
-        label = this.currentToken().value.slice(1, -1);
-        this.advance();
-      } else if (this.currentToken().type === TokenType.IDENTIFIER) {
-        // Collect multiple identifiers as a single label
-        const labelParts: string[] = [];
-        while (this.currentToken().type === TokenType.IDENTIFIER) {
-          labelParts.push(this.currentToken().value);
-          this.advance();
-        }
-        label = labelParts.join(' ');
+
+      // Check if there's a valid destination node
+      if (this.isAtEnd() || this.currentToken().type === TokenType.EOF) {
+        this.addError(arrowToken, 'Arrow must have a destination node', 'INCOMPLETE_ARROW', 'Add a node after the arrow');
+        this.linkCount++;
+        return elements;
       }
-      
-      if (this.currentToken().type === TokenType.DOUBLE_PAREN_CLOSE) {
-        this.advance(); // Skip ))
-      } else {
-        this.addError(this.currentToken(), 'Expected closing double parenthesis ))');
-        // Try to recover
-        while (!this.isAtEnd() && this.currentToken().type !== TokenType.DOUBLE_PAREN_CLOSE && 
-               this.currentToken().type !== TokenType.ARROW && this.currentToken().type !== TokenType.DOTTED_ARROW && this.currentToken().type !== TokenType.EOF) {
-          this.advance();
-        }
-        if (this.currentToken().type === TokenType.DOUBLE_PAREN_CLOSE) {
-          this.advance();
+
+      const targets = this.parseNodeGroup(elements);
+      for (const source of sources) {
+        for (const target of targets) {
+          elements.push({
+            type: 'arrow',
+            line: arrowToken.line,
+            column: arrowToken.column,
+            range: this.rangeFrom(arrowToken),
+            from: source.id,
+            to: target.id,
+            ...link
+          });
+          this.linkCount++;
         }
       }
-    } else if (this.currentToken().type === TokenType.BRACE_OPEN) {
-      this.advance(); // Skip {
-      shape = 'diamond';
-      
-      if (this.currentToken().type === TokenType.STRING) {
-        label = this.currentToken().value.slice(1, -1);
-        this.advance();
-      } else if (this.currentToken().type === TokenType.IDENTIFIER) {
-        // Collect multiple identifiers as a single label
-        const labelParts: string[] = [];
-        while (this.currentToken().type === TokenType.IDENTIFIER) {
-          labelParts.push(this.currentToken().value);
-          this.advance();
-        }
-        label = labelParts.join(' ');
+      sources = targets;
+    }
+
+    // Another node on the same line means two statements were run together without a link
+    const next = this.currentToken();
+    const last = sources[sources.length - 1];
+    if (!this.isAtEnd() && next.type === TokenType.IDENTIFIER && next.line === this.tokens[this.position - 1]?.line &&
+        next.value.toLowerCase() !== 'end') {
+      this.addError(next, 
+        `Adjacent nodes '${last.id}' and '${next.value}' on same line without arrow connection`, 
+        'MISSING_ARROW', 
+        'Add an arrow (-->) between the nodes or place them on separate lines');
+    }
+
+    return elements;
+  }
+
+  private parseNodeGroup(elements: FlowchartElement[]): FlowchartElement[] {
+    const group = [this.parseClassedNode()];
+    while (this.currentToken().type === TokenType.IDENTIFIER && this.currentToken().value === '&') {
+      const ampersand = this.currentToken();
+      this.advance(); // Skip &
+      const next = this.currentToken();
+      if (this.isAtEnd() || next.line !== ampersand.line || this.isLinkToken(next) ||
+          (next.type !== TokenType.IDENTIFIER && next.type !== TokenType.NUMBER) || next.value === '&') {
+        this.addError(ampersand, "Expected a node after '&'", 'MISSING_NODE', 'Add a node after & or remove it');
+        break;
       }
-      
-      if (this.currentToken().type === TokenType.BRACE_CLOSE) {
-        this.advance(); // Skip }
-      } else {
-        this.addError(this.currentToken(), 'Expected closing brace }');
-        // Try to recover
-        while (!this.isAtEnd() && this.currentToken().type !== TokenType.BRACE_CLOSE && 
-               this.currentToken().type !== TokenType.ARROW && this.currentToken().type !== TokenType.DOTTED_ARROW && this.currentToken().type !== TokenType.EOF) {
-          this.advance();
-        }
-        if (this.currentToken().type === TokenType.BRACE_CLOSE) {
-          this.advance();
-        }
+      group.push(this.parseClassedNode());
+    }
+    elements.push(...group);
+    return group;
+  }
+
+  private parseClassedNode(): FlowchartElement {
+    // A node optionally followed by the A:::className shorthand for a class assignment
+    const node = this.parseNode();
+    const [first, second, third] = this.tokens.slice(this.position, this.position + 3);
+    if (first?.type !== TokenType.COLON || second?.type !== TokenType.COLON || third?.type !== TokenType.COLON) {
+      return node;
+    }
+    this.advance();
+    this.advance();
+    this.advance(); // Skip :::
+
+    const nameToken = this.currentToken();
+    if (nameToken.type === TokenType.IDENTIFIER && nameToken.line === third.line && !this.isLinkToken(nameToken)) {
+      node.classes = [...(node.classes ?? []), nameToken.value];
+      this.advance();
+      this.closeRange(node);
+    } else {
+      this.addError(third, 
+        `Expected a class name after ':::' on node '${node.id}'`, 
+        'MISSING_CLASS_NAME', 
+        `Name a classDef after the separator, e.g. ${node.id}:::highlight`);
+    }
+    return node;
+  }
+
+  private parseArrow(): FlowchartElement {
+    // A link without a source node on its line
+    const arrowToken = this.currentToken();
+    const link = this.parseLink();
+    this.linkCount++; // Count this as a link
+
+    // Check if there's a valid destination node
+    if (!link || this.isAtEnd() || this.currentToken().type === TokenType.EOF) {
+      if (link) {
+        this.addError(arrowToken, 'Arrow must have a destination node', 'INCOMPLETE_ARROW', 'Add a node after the arrow');
       }
+      return {
+        type: 'arrow',
+        line: arrowToken.line,
+        column: arrowToken.column,
+        range: this.rangeFrom(arrowToken),
+        to: undefined,
+        ...link
+      };
     }
 
+    const toNode = this.parseClassedNode();
+
     return {
-      type: 'node',
-      line: idToken.line,
-      column: idToken.column,
-      id,
-      label,
-      shape
+      type: 'arrow',
+      line: arrowToken.line,
+      column: arrowToken.column,
+      range: this.rangeFrom(arrowToken),
+      to: toNode.id,
+      ...link
     };
   }
 
-  private parseArrow(): FlowchartElement {
+  private parseLink(): Pick<FlowchartElement, 'label' | 'style' | 'head' | 'length' | 'bidirectional'> | null {
     const arrowToken = this.currentToken();
     this.advance(); // Skip arrow
-    this.linkCount++; // Count this as a link
 
     let label: string | undefined;
+    let link = this.describeLink(arrowToken.value);
+
+    if (arrowToken.type === TokenType.LINK_START) {
+      // Inline text link: "A -- text --> B", "A -. text .-> B" or "A == text ==> B"
+      const labelTokens: Token[] = [];
+      while (!this.isAtEnd() && this.currentToken().line === arrowToken.line && !this.isLinkToken(this.currentToken())) {
+        labelTokens.push(this.currentToken());
+        this.advance();
+      }
+
+      const endToken = this.currentToken();
+      if (endToken.line !== arrowToken.line || !this.isLinkToken(endToken) || endToken.type === TokenType.LINK_START) {
+        this.addError(arrowToken, 
+          `Link text after '${arrowToken.value}' is not followed by a closing link`, 
+          'UNTERMINATED_LINK_TEXT', 
+          `Close the link text with an arrow, e.g. A ${arrowToken.value} text ${arrowToken.value.replace(/^[<xo]/, '')}> B`);
+        return null;
+      }
+      this.advance(); // Skip closing link
+
+      const endLink = this.describeLink(endToken.value);
+      if (endLink.style !== link.style) {
+        this.addError(endToken, 
+          `Link text opened with '${arrowToken.value}' must be closed with a ${link.style} link, found '${endToken.value}'`, 
+          'MISMATCHED_LINK_TEXT', 
+          'Use -- text -->, -. text .-> or == text ==>');
+      }
+      // The opener only contributes a start marker; style, head and length come from the closing link
+      const startMarker = arrowToken.value[0];
+      link = {
+        ...endLink,
+        bidirectional: { '<': '>', x: 'x', o: 'o' }[startMarker] === endToken.value[endToken.value.length - 1]
+      };
+      label = this.lineText(labelTokens).replace(/^"(.*)"$/, '$1');
+    }
+
     if (this.currentToken().type === TokenType.PIPE) {
       this.advance(); // Skip |
       if (this.currentToken().type === TokenType.STRING) {
@@ -448,27 +765,47 @@ export class Parser {
       }
     }
 
-    // Check if there's a valid destination node
-    if (this.isAtEnd() || this.currentToken().type === TokenType.EOF) {
-      this.addError(arrowToken, 'Arrow must have a destination node', 'INCOMPLETE_ARROW', 'Add a node after the arrow');
-      return {
-        type: 'arrow',
-        line: arrowToken.line,
-        column: arrowToken.column,
-        label,
-        to: undefined
-      };
+    return { label, ...link };
+  }
+
+  private isLinkToken(token: Token): boolean {
+    return token.type === TokenType.ARROW || token.type === TokenType.DOTTED_ARROW || token.type === TokenType.THICK_ARROW ||
+      token.type === TokenType.INVISIBLE_LINK || token.type === TokenType.LINK_START;
+  }
+
+  private describeLink(value: string): Required<Pick<FlowchartElement, 'style' | 'head' | 'length' | 'bidirectional'>> {
+    // Split a link such as <-->, o--o, -..-> or ==> into start marker, stroke and head
+    const heads: { [char: string]: FlowchartElement['head'] } = { '>': 'arrow', x: 'cross', o: 'circle' };
+    const mirroredMarkers: { [char: string]: string } = { '<': '>', x: 'x', o: 'o' };
+    let stroke = value;
+    let head: FlowchartElement['head'] = 'open';
+    let bidirectional = false;
+
+    const last = stroke[stroke.length - 1];
+    if (heads[last] && stroke.length > 1) {
+      head = heads[last];
+      stroke = stroke.slice(0, -1);
+      if (mirroredMarkers[stroke[0]] === last) {
+        bidirectional = true;
+        stroke = stroke.slice(1);
+      }
+    } else if (mirroredMarkers[stroke[0]]) {
+      // Text link openers carry their marker without a head
+      stroke = stroke.slice(1);
     }
 
-    const toNode = this.parseNode();
+    const style: FlowchartElement['style'] = stroke.startsWith('~') ? 'invisible'
+      : stroke.startsWith('=') ? 'thick'
+      : stroke.includes('.') ? 'dotted'
+      : 'normal';
+    // Mermaid measures dotted links by their dots and other links by the stroke characters beyond
+    // the minimum, where the final character of an open link (--- or ===) stands in for the head
+    const strokeLength = head === 'open' ? stroke.length - 1 : stroke.length;
+    const length = style === 'dotted'
+      ? (stroke.match(/\./g) ?? []).length
+      : Math.max(1, strokeLength - 1);
 
-    return {
-      type: 'arrow',
-      line: arrowToken.line,
-      column: arrowToken.column,
-      label,
-      to: toNode.id
-    };
+    return { style, head, length, bidirectional };
   }
 
   private parseSequenceDiagram(): SequenceNode {
@@ -477,29 +814,220 @@ export class Parser {
 
     const participants: ParticipantNode[] = [];
     const messages: MessageNode[] = [];
+    const blocks: SequenceBlock[] = [];
+    const activations: ActivationNode[] = [];
+    const notes: SequenceNote[] = [];
+    const lifecycle: ParticipantLifecycle[] = [];
+    let autonumber: { start: number; step: number } | undefined;
+    let title: string | undefined;
+
+    const blockKinds: SequenceBlock['kind'][] = ['loop', 'alt', 'opt', 'par', 'critical', 'break', 'rect', 'box'];
+    // Branch keywords split a block into sections and are only valid inside their parent block
+    const branchParents: { [keyword: string]: SequenceBlock['kind'] } = { else: 'alt', and: 'par', option: 'critical' };
+    const openBlocks: { block: SequenceBlock; token: Token }[] = [];
+    const innermostBlock = (): SequenceBlock | undefined => openBlocks[openBlocks.length - 1]?.block;
+    const currentBranch = (): SequenceBranch | undefined => {
+      const block = innermostBlock();
+      return block?.branches[block.branches.length - 1];
+    };
+
+    const addParticipant = (participant: ParticipantNode): void => {
+      const block = innermostBlock();
+      if (block?.kind === 'box') {
+        participant.box = block.label;
+      }
+      participants.push(participant);
+    };
+
+    // Participants named by a destroy statement, and those whose destroying message has been sent
+    const pendingDestroy = new Set<string>();
+    const destroyed = new Set<string>();
+
+    // Activation tokens per participant, so unbalanced activations can be reported where they happened
+    const activeParticipants = new Map<string, Token[]>();
+    const applyActivation = (participant: string, action: 'activate' | 'deactivate', token: Token): void => {
+      const stack = activeParticipants.get(participant) ?? [];
+      if (action === 'activate') {
+        stack.push(token);
+        activeParticipants.set(participant, stack);
+      } else if (stack.length === 0) {
+        this.addError(token, 
+          `Cannot deactivate '${participant}' because it is not active`, 
+          'INACTIVE_PARTICIPANT_DEACTIVATION', 
+          `Add "activate ${participant}" before deactivating it, or remove the deactivation`);
+      } else {
+        stack.pop();
+      }
+    };
 
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
       const token = this.currentToken();
+      const nextToken = this.peekToken();
+      // Block keywords only count at the start of a line and when not used as a message sender
+      const startsStatement = token.type === TokenType.IDENTIFIER && token.indent !== undefined &&
+        !(nextToken && (nextToken.type === TokenType.SEQUENCE_ARROW || nextToken.type === TokenType.ARROW));
       
-      if (token.type === TokenType.PARTICIPANT) {
-        participants.push(this.parseParticipant());
+      if (token.type === TokenType.PARTICIPANT || (startsStatement && token.value === 'actor')) {
+        addParticipant(this.parseParticipant());
+      } else if (startsStatement && token.value === 'create') {
+        this.advance(); // Skip create
+        const declarationToken = this.currentToken();
+        if (declarationToken.line !== token.line || 
+            (declarationToken.type !== TokenType.PARTICIPANT && declarationToken.value !== 'actor')) {
+          this.addError(token, 
+            'create must be followed by a participant or actor declaration', 
+            'INVALID_CREATE_STATEMENT', 
+            'Use: create participant Name or create actor Name');
+          continue;
+        }
+        const participant = this.parseParticipant();
+        participant.created = true;
+        addParticipant(participant);
+        lifecycle.push({ type: 'lifecycle', line: token.line, column: token.column, range: this.rangeFrom(token), action: 'create', participant: participant.name });
+      } else if (startsStatement && token.value === 'destroy') {
+        const lineTokens = this.collectLineTokens();
+        const name = this.lineText(lineTokens.slice(1)).replace(/^"(.*)"$/, '$1');
+        if (!name) {
+          this.addError(token, 'destroy statement must name a participant', 'MISSING_PARTICIPANT_NAME', 'Add a participant name after destroy');
+          continue;
+        }
+        // The next message involving the participant is the one that destroys it
+        pendingDestroy.add(name);
+        lifecycle.push({ type: 'lifecycle', line: token.line, column: token.column, range: this.rangeFrom(token), action: 'destroy', participant: name });
+      } else if (startsStatement && token.value.toLowerCase() === 'note') {
+        const note = this.parseSequenceNote();
+        if (note) {
+          notes.push(note);
+        }
       } else if (token.type === TokenType.DIRECTIVE) {
         // Skip directives - they are configuration, not diagram elements
         this.advance();
       } else if (token.value === 'classDef' || token.value === 'class' || token.value === 'linkStyle' || 
-                 token.value === 'style' || token.value === 'click' || token.value === 'note') {
+                 token.value === 'style' || token.value === 'click') {
         // Styling directives are not valid in sequence diagrams
         this.addError(token, 
           `${token.value} directive is not supported in sequence diagrams`, 
           'UNSUPPORTED_STYLING_DIRECTIVE', 
           'Styling directives are not supported in sequence diagrams');
         // Skip the directive to continue parsing
-        this.skipUntilSemicolon();
+        this.skipStatement();
+      } else if (token.type === TokenType.ACTIVATION || token.type === TokenType.DEACTIVATION) {
+        const activation = this.parseActivation();
+        if (activation.participant) {
+          applyActivation(activation.participant, activation.action, token);
+        }
+        activations.push(activation);
+      } else if (startsStatement && blockKinds.includes(token.value as SequenceBlock['kind'])) {
+        const lineTokens = this.collectLineTokens();
+        const kind = token.value as SequenceBlock['kind'];
+        const label = this.lineText(lineTokens.slice(1));
+        const parent = innermostBlock();
+
+        if (kind === 'box' && parent) {
+          this.addError(token, 
+            'box blocks cannot be nested inside other blocks', 
+            'INVALID_BOX_CONTENT', 
+            'Move the box to the top level of the diagram');
+        } else if (parent?.kind === 'box') {
+          this.addError(token, 
+            `${kind} blocks are not allowed inside a box`, 
+            'INVALID_BOX_CONTENT', 
+            'A box can only contain participant declarations - close it with "end" first');
+        }
+
+        const block: SequenceBlock = {
+          type: 'block',
+          line: token.line,
+          column: token.column,
+          range: this.rangeFrom(token),
+          kind,
+          label,
+          branches: [{ type: 'branch', line: token.line, column: token.column, range: this.rangeFrom(token), keyword: kind, label, messages: [], blocks: [] }]
+        };
+        (currentBranch()?.blocks ?? blocks).push(block);
+        openBlocks.push({ block, token });
+      } else if (startsStatement && token.value in branchParents) {
+        const lineTokens = this.collectLineTokens();
+        const block = innermostBlock();
+        const expectedParent = branchParents[token.value];
+
+        if (block?.kind !== expectedParent) {
+          this.addError(token, 
+            `'${token.value}' can only be used inside an ${expectedParent} block`, 
+            'INVALID_BLOCK_BRANCH', 
+            `Open an ${expectedParent} block before using '${token.value}'`);
+          continue;
+        }
+
+        this.closeRange(block.branches[block.branches.length - 1], token);
+        block.branches.push({
+          type: 'branch',
+          line: token.line,
+          column: token.column,
+          range: this.rangeFrom(token),
+          keyword: token.value,
+          label: this.lineText(lineTokens.slice(1)),
+          messages: [],
+          blocks: []
+        });
+      } else if (startsStatement && token.value === 'end') {
+        this.collectLineTokens();
+        const closed = openBlocks.pop();
+        if (!closed) {
+          this.addError(token, 
+            'Unexpected "end" keyword - found end without matching block', 
+            'UNMATCHED_END', 
+            'Remove the extra "end" or add the missing loop, alt, opt, par, critical, break, rect or box');
+        } else {
+          this.closeRange(closed.block);
+          this.closeRange(closed.block.branches[closed.block.branches.length - 1]);
+        }
+      } else if (startsStatement && token.value === 'title') {
+        // title Text or title: Text
+        const lineTokens = this.collectLineTokens();
+        title = this.lineText(lineTokens.slice(1)).replace(/^:\s*/, '') || undefined;
+      } else if (startsStatement && token.value === 'autonumber') {
+        const lineTokens = this.collectLineTokens();
+        const args = this.lineText(lineTokens.slice(1)).split(/\s+/).filter(arg => arg.length > 0);
+
+        if (args.length === 1 && args[0] === 'off') {
+          autonumber = undefined;
+        } else if (args.length <= 2 && args.every(arg => /^\d+$/.test(arg))) {
+          autonumber = { start: args[0] ? parseInt(args[0], 10) : 1, step: args[1] ? parseInt(args[1], 10) : 1 };
+        } else {
+          this.addError(token, 
+            `Invalid autonumber arguments: "${args.join(' ')}"`, 
+            'INVALID_AUTONUMBER', 
+            'Use "autonumber", "autonumber <start>", "autonumber <start> <step>" or "autonumber off"');
+        }
       } else if (token.type === TokenType.IDENTIFIER || token.type === TokenType.STRING) {
         // Check if this looks like a message (has an arrow after it)
-        const nextToken = this.peekToken();
         if (nextToken && (nextToken.type === TokenType.SEQUENCE_ARROW || nextToken.type === TokenType.ARROW)) {
-          messages.push(this.parseMessageLine());
+          const message = this.parseMessageLine();
+          if (innermostBlock()?.kind === 'box') {
+            this.addError(token, 
+              'Messages are not allowed inside a box', 
+              'INVALID_BOX_CONTENT', 
+              'A box can only contain participant declarations - close it with "end" first');
+          }
+          for (const name of new Set([message.from, message.to])) {
+            if (destroyed.has(name)) {
+              this.addError(token, 
+                `Cannot send a message to or from '${name}' after it has been destroyed`, 
+                'MESSAGE_TO_DESTROYED_PARTICIPANT', 
+                `Remove the message or move "destroy ${name}" after it`);
+            } else if (pendingDestroy.delete(name)) {
+              destroyed.add(name);
+            }
+          }
+          // Shorthand activations: '+' activates the receiver, '-' deactivates the sender
+          if (message.activation === 'activate') {
+            applyActivation(message.to, 'activate', token);
+          } else if (message.activation === 'deactivate') {
+            applyActivation(message.from, 'deactivate', token);
+          }
+          messages.push(message);
+          currentBranch()?.messages.push(message);
         } else {
           // Skip identifiers/strings that aren't part of messages
           this.advance();
@@ -510,60 +1038,148 @@ export class Parser {
       }
     }
 
+    for (const { block, token } of openBlocks) {
+      this.closeRange(block);
+      this.closeRange(block.branches[block.branches.length - 1]);
+      this.addError(token, 
+        `${block.kind} block is missing its closing "end"`, 
+        'UNCLOSED_SEQUENCE_BLOCK', 
+        `Add "end" to close the ${block.kind} block`);
+    }
+
+    for (const [participant, stack] of activeParticipants) {
+      for (const token of stack) {
+        this.addWarning(token, 
+          `Participant '${participant}' is activated but never deactivated`, 
+          'UNCLOSED_ACTIVATION', 
+          `Add "deactivate ${participant}" or use the '-' shorthand on its reply message`);
+      }
+    }
+
     // Validate that participants are defined before messages
-    this.validateSequenceDiagram(participants, messages);
+    this.validateSequenceDiagram(participants, messages, notes);
 
     return {
       type: 'sequence',
       line: startToken.line,
       column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
       participants,
-      messages
+      messages,
+      blocks,
+      activations,
+      notes,
+      lifecycle,
+      autonumber
+    };
+  }
+
+  private parseActivation(): ActivationNode {
+    const lineTokens = this.collectLineTokens();
+    const keywordToken = lineTokens[0];
+    const action = keywordToken.type === TokenType.ACTIVATION ? 'activate' : 'deactivate';
+    const participant = this.lineText(lineTokens.slice(1)).replace(/^"(.*)"$/, '$1');
+
+    if (!participant) {
+      this.addError(keywordToken, 
+        `${action} statement must name a participant`, 
+        'MISSING_ACTIVATION_TARGET', 
+        `Add a participant name after ${keywordToken.value}`);
+    }
+
+    return {
+      type: 'activation',
+      line: keywordToken.line,
+      column: keywordToken.column,
+      range: this.rangeFrom(keywordToken),
+      participant,
+      action
     };
   }
 
   private parseParticipant(): ParticipantNode {
-    const startToken = this.currentToken();
-    this.advance(); // Skip participant
+    const lineTokens = this.collectLineTokens();
+    const keywordToken = lineTokens[0];
+    const kind = keywordToken.type === TokenType.PARTICIPANT ? 'participant' : 'actor';
+    const text = this.lineText(lineTokens.slice(1));
 
-    // Check if there's a valid participant name (can be IDENTIFIER or STRING)
-    const nameToken = this.currentToken();
-    if (nameToken.type === TokenType.EOF || this.isAtEnd() || 
-        (nameToken.type !== TokenType.IDENTIFIER && nameToken.type !== TokenType.STRING)) {
-      this.addError(startToken, 'Participant declaration must have a name', 'MISSING_PARTICIPANT_NAME', 'Add a participant name after the participant keyword');
+    // participant Name[@{ "type": "database" }][ as Alias]
+    const match = /^("[^"]*"|.+?)\s*(?:@(\{.*\}))?(?:\s+as\s+(.+))?$/.exec(text);
+    if (!match) {
+      this.addError(keywordToken, `${kind === 'participant' ? 'Participant' : 'Actor'} declaration must have a name`, 'MISSING_PARTICIPANT_NAME', `Add a name after the ${kind} keyword`);
       return {
         type: 'participant',
-        line: startToken.line,
-        column: startToken.column,
+        line: keywordToken.line,
+        column: keywordToken.column,
+        range: this.rangeFrom(keywordToken),
+        kind,
         name: '',
         alias: undefined
       };
     }
 
-    // Extract the name (remove quotes from STRING tokens)
-    const name = nameToken.type === TokenType.STRING 
-      ? nameToken.value.slice(1, -1) 
-      : nameToken.value;
-    this.advance();
+    const [, rawName, annotation, rawAlias] = match;
+    const participant: ParticipantNode = {
+      type: 'participant',
+      line: keywordToken.line,
+      column: keywordToken.column,
+      range: this.rangeFrom(keywordToken),
+      kind,
+      name: rawName.trim().replace(/^"(.*)"$/, '$1'),
+      alias: rawAlias?.trim().replace(/^"(.*)"$/, '$1')
+    };
 
-    let alias: string | undefined;
-    // Check for "as" keyword before looking for alias
-    if (this.currentToken().type === TokenType.IDENTIFIER && this.currentToken().value === 'as') {
-      this.advance(); // Skip "as"
-      if (this.currentToken().type === TokenType.IDENTIFIER || this.currentToken().type === TokenType.STRING) {
-        alias = this.currentToken().type === TokenType.STRING
-          ? this.currentToken().value.slice(1, -1)
-          : this.currentToken().value;
-        this.advance();
+    if (annotation !== undefined) {
+      const participantTypes = ['boundary', 'control', 'entity', 'database', 'collections', 'queue', 'actor'];
+      const typeMatch = /"?type"?\s*:\s*"?([\w-]+)"?/.exec(annotation);
+      if (typeMatch && participantTypes.includes(typeMatch[1])) {
+        participant.participantType = typeMatch[1] as ParticipantNode['participantType'];
+      } else {
+        this.addError(keywordToken, 
+          `Invalid participant type annotation: ${annotation}`, 
+          'INVALID_PARTICIPANT_TYPE', 
+          `Use @{ "type": "<type>" } with one of: ${participantTypes.join(', ')}`);
       }
     }
 
+    return participant;
+  }
+
+  private parseSequenceNote(): SequenceNote | null {
+    const lineTokens = this.collectLineTokens();
+    const noteToken = lineTokens[0];
+    const text = this.lineText(lineTokens);
+
+    const match = /^note\s+(left\s+of|right\s+of|over)\s+([^:]+?)\s*:(.*)$/i.exec(text);
+    if (!match) {
+      this.addError(noteToken, 
+        `Invalid note: "${text}"`, 
+        'INVALID_SEQUENCE_NOTE', 
+        'Use the format: Note left of A: text, Note right of A: text or Note over A,B: text');
+      return null;
+    }
+
+    const placement = match[1].toLowerCase().replace(/\s+/, ' ') as SequenceNote['placement'];
+    const noteParticipants = match[2].split(',').map(name => name.trim().replace(/^"(.*)"$/, '$1'));
+    const maxParticipants = placement === 'over' ? 2 : 1;
+
+    if (noteParticipants.some(name => name.length === 0) || noteParticipants.length > maxParticipants) {
+      this.addError(noteToken, 
+        `Note ${placement} accepts ${maxParticipants === 1 ? 'one participant' : 'one or two participants'}, got "${match[2]}"`, 
+        'INVALID_SEQUENCE_NOTE', 
+        placement === 'over' ? 'Use Note over A: text or Note over A,B: text' : `Use Note ${placement} A: text`);
+      return null;
+    }
+
     return {
-      type: 'participant',
-      line: startToken.line,
-      column: startToken.column,
-      name,
-      alias
+      type: 'note',
+      line: noteToken.line,
+      column: noteToken.column,
+      range: this.rangeFrom(noteToken),
+      placement,
+      participants: noteParticipants,
+      text: match[3].trim()
     };
   }
 
@@ -576,34 +1192,35 @@ export class Parser {
     this.advance();
 
     // Parse arrow type
-    let arrowType: 'solid' | 'dotted' | 'thick' = 'solid';
+    let arrowType: MessageNode['arrowType'] = 'solid-arrow';
     const arrowToken = this.currentToken();
     if (arrowToken.type === TokenType.SEQUENCE_ARROW || arrowToken.type === TokenType.ARROW) {
-      const arrowValue = arrowToken.value;
-      if (arrowValue === '->>') {
-        arrowType = 'solid';
-      } else if (arrowValue === '-->>') {
-        arrowType = 'dotted';
-      } else if (arrowValue === '->') {
-        arrowType = 'solid';
-      } else if (arrowValue === '-->') {
-        arrowType = 'solid';
-      }
+      arrowType = this.sequenceArrowType(arrowToken.value);
       this.advance();
     }
 
-    // Check if there's a valid destination
-    const toToken = this.currentToken();
+    // Activation shorthand directly after the arrow, e.g. A->>+B or B-->>-A
+    let activation: 'activate' | 'deactivate' | undefined;
+    const shorthandToken = this.currentToken();
+    if (shorthandToken.line === arrowToken.line && (shorthandToken.value === '+' || shorthandToken.value === '-')) {
+      activation = shorthandToken.value === '+' ? 'activate' : 'deactivate';
+      this.advance();
+    }
+
+    // Check if there's a valid destination
+    const toToken = this.currentToken();
     if (toToken.type === TokenType.EOF || this.isAtEnd()) {
       this.addError(arrowToken, 'Incomplete message: arrow must have a destination participant', 'INCOMPLETE_MESSAGE', 'Add a destination participant after the arrow');
       return {
         type: 'message',
         line: fromToken.line,
         column: fromToken.column,
+        range: this.rangeFrom(fromToken),
         from,
         to: '',
         message: '',
-        arrowType
+        arrowType,
+        activation
       };
     }
     
@@ -650,11 +1267,30 @@ export class Parser {
       type: 'message',
       line: fromToken.line,
       column: fromToken.column,
+      range: this.rangeFrom(fromToken),
       from,
       to,
       message,
-      arrowType
+      arrowType,
+      activation
+    };
+  }
+
+  private sequenceArrowType(arrow: string): MessageNode['arrowType'] {
+    // Line style comes from the number of dashes, head type from the arrow ending
+    const arrowTypes: { [arrow: string]: MessageNode['arrowType'] } = {
+      '->': 'solid-open',
+      '-->': 'dotted-open',
+      '->>': 'solid-arrow',
+      '-->>': 'dotted-arrow',
+      '-x': 'solid-cross',
+      '--x': 'dotted-cross',
+      '-)': 'solid-async',
+      '--)': 'dotted-async',
+      '<<->>': 'solid-bidirectional',
+      '<<-->>': 'dotted-bidirectional'
     };
+    return arrowTypes[arrow] ?? 'solid-arrow';
   }
 
   private parseMessage(): MessageNode {
@@ -663,18 +1299,9 @@ export class Parser {
     this.advance();
 
     // Parse arrow type
-    let arrowType: 'solid' | 'dotted' | 'thick' = 'solid';
+    let arrowType: MessageNode['arrowType'] = 'solid-arrow';
     if (this.currentToken().type === TokenType.SEQUENCE_ARROW || this.currentToken().type === TokenType.ARROW) {
-      const arrowValue = this.currentToken().value;
-      if (arrowValue === '->>') {
-        arrowType = 'solid';
-      } else if (arrowValue === '-->>') {
-        arrowType = 'dotted';
-      } else if (arrowValue === '->') {
-        arrowType = 'solid';
-      } else if (arrowValue === '-->') {
-        arrowType = 'solid';
-      }
+      arrowType = this.sequenceArrowType(this.currentToken().value);
       this.advance();
     }
 
@@ -719,6 +1346,7 @@ export class Parser {
       type: 'message',
       line: fromToken.line,
       column: fromToken.column,
+      range: this.rangeFrom(fromToken),
       from,
       to,
       message,
@@ -784,10 +1412,11 @@ export class Parser {
             } else if (this.currentToken().type === TokenType.IDENTIFIER) {
               const identifier = this.currentToken().value;
               if (!this.isValidIdentifier(identifier, 'xychart-axis')) {
-                this.addError(this.currentToken(), 
+                this.addWarning(this.currentToken(), 
                   `Identifier '${identifier}' contains special characters and should be quoted`, 
                   'INVALID_IDENTIFIER', 
-                  `Use "${identifier}" instead of ${identifier}`);
+                  `Use "${identifier}" instead of ${identifier}`, 
+                  this.quoteListEntry(this.currentToken()));
               }
               xAxis.push(identifier);
             }
@@ -854,13 +1483,14 @@ export class Parser {
     }
 
     // Validate the chart
-    this.validateXYChart(title || '', xAxis, yAxis || { label: '', min: 0, max: 100 }, data);
+    this.validateXYChart(startToken, title || '', xAxis, yAxis || { label: '', min: 0, max: 100 }, data);
 
     return {
       type: 'xychart',
       line: startToken.line,
       column: startToken.column,
-      title,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
       xAxis,
       yAxis: yAxis || { label: '', min: 0, max: 100 },
       data
@@ -891,7 +1521,9 @@ export class Parser {
     
     while (!this.isAtEnd() && !(this.currentToken().type === TokenType.IDENTIFIER && this.currentToken().value.toLowerCase() === 'end')) {
       const child = this.parseFlowchartElement();
-      if (child) {
+      if (Array.isArray(child)) {
+        children.push(...child);
+      } else if (child) {
         children.push(child);
       }
     }
@@ -900,17 +1532,19 @@ export class Parser {
     if (this.currentToken().type === TokenType.IDENTIFIER && this.currentToken().value.toLowerCase() === 'end') {
       this.advance(); // Skip end
     } else {
-      // Report error for missing 'end' keyword
-      this.addError(this.currentToken(), 'Expected "end" to close subgraph', 'MISSING_SUBGRAPH_END', 'Add "end" keyword to close the subgraph');
+      // Report error for missing 'end' keyword; the subgraph runs to the end of the input, so close it there
+      const indent = /^[ \t]*/.exec(this.input.slice(this.lineStart(startToken.position)))![0];
+      const newline = this.input.includes('\r\n') ? '\r\n' : '\n';
+      const separator = /\n\s*$/.test(this.input) ? '' : newline;
+      this.addError(this.currentToken(), 'Expected "end" to close subgraph', 'MISSING_SUBGRAPH_END', 'Add "end" keyword to close the subgraph', 
+        this.textEdit(this.input.length, this.input.length, `${separator}${indent}end${newline}`));
     }
 
-    // Validate connections within the subgraph
-    this.validateFlowchartConnections(children);
-
     return {
       type: 'subgraph',
       line: startToken.line,
       column: startToken.column,
+      range: this.rangeFrom(startToken),
       id,
       children
     };
@@ -919,10 +1553,10 @@ export class Parser {
   private getDiagramType(): string {
     if (this.tokens.length === 0) return 'unknown';
     
-    // Find the first non-directive token to determine diagram type
+    // Find the first token after any directives and frontmatter to determine diagram type
     let firstDiagramToken: Token | null = null;
     for (let i = 0; i < this.tokens.length; i++) {
-      if (this.tokens[i].type !== TokenType.DIRECTIVE) {
+      if (this.tokens[i].type !== TokenType.DIRECTIVE && this.tokens[i].type !== TokenType.FRONTMATTER) {
         firstDiagramToken = this.tokens[i];
         break;
       }
@@ -981,39 +1615,89 @@ export class Parser {
     return this.position >= this.tokens.length || this.currentToken().type === TokenType.EOF;
   }
 
-  private validateFlowchartConnections(nodes: FlowchartElement[]): void {
-    // Check for adjacent nodes on the same line without arrows
-    // Nodes on separate lines are allowed, but nodes on the same line
-    // must be connected with arrows
-    for (let i = 0; i < nodes.length - 1; i++) {
-      const currentNode = nodes[i];
-      const nextNode = nodes[i + 1];
-      
-      // If we have two consecutive nodes on the same line without an arrow between them, that's an error
-      if (currentNode.type === 'node' && nextNode.type === 'node' && currentNode.line === nextNode.line) {
-        this.addError(
-          { type: TokenType.IDENTIFIER, value: nextNode.id || '', line: nextNode.line, column: nextNode.column, position: 0 },
-          `Adjacent nodes '${currentNode.id}' and '${nextNode.id}' on same line without arrow connection`,
-          'MISSING_ARROW',
-          'Add an arrow (-->) between the nodes or place them on separate lines'
-        );
+  private validateFlowchartStyling(nodes: FlowchartElement[]): void {
+    // Mermaid silently ignores unknown classes and creates a bare node for a styled id it has not seen,
+    // so both are reported as warnings rather than errors
+    const ids = new Set<string>();
+    const classed: FlowchartElement[] = [];
+    const collect = (elements: FlowchartElement[]) => {
+      for (const element of elements) {
+        for (const id of [element.id, element.from, element.to]) {
+          if (id) ids.add(id);
+        }
+        if (element.classes) classed.push(element);
+        if (element.children) collect(element.children);
+      }
+    };
+    collect(nodes);
+
+    const { classDefs, classAssignments, styles } = this.flowchartStyling;
+    const classNames = new Set<string>(classDefs.flatMap(classDef => classDef.names));
+    const checkClassName = (className: string, at: ASTNode) => {
+      if (!classNames.has(className)) {
+        this.addWarning(this.tokenWithin(at, className), 
+          `Class '${className}' is not defined by any classDef`, 
+          'UNKNOWN_CLASS_NAME', 
+          `Add classDef ${className} with its styles or fix the class name`);
+      }
+    };
+    const checkTarget = (id: string, at: ASTNode, statement: string) => {
+      if (!ids.has(id)) {
+        this.addWarning(this.tokenWithin(at, id), 
+          `${statement} refers to '${id}', which is not a node or subgraph in this diagram`, 
+          'UNKNOWN_STYLE_TARGET', 
+          'Check the node id for typos - Mermaid creates an empty node for unknown ids');
       }
+    };
+
+    for (const element of classed) {
+      element.classes!.forEach(className => checkClassName(className, element));
+    }
+    for (const assignment of classAssignments) {
+      if (!assignment.className) continue;
+      assignment.ids.forEach(id => checkTarget(id, assignment, 'class'));
+      checkClassName(assignment.className, assignment);
+    }
+    for (const style of styles) {
+      if (style.id) checkTarget(style.id, style, 'style');
     }
   }
 
-  private validateSequenceDiagram(participants: ParticipantNode[], messages: MessageNode[]): void {
+  private validateSequenceDiagram(participants: ParticipantNode[], messages: MessageNode[], notes: SequenceNote[]): void {
     // In Mermaid sequence diagrams, participants can be implicitly defined
     // when first used in a message, so we don't validate that all participants
     // are explicitly declared. This is intentionally lenient to match Mermaid's behavior.
-    
-    // Note: We keep this method for future validations if needed
+    if (!this.options.strict) {
+      return;
+    }
+
+    // Strict mode: a note must refer to a declared participant or one that appears in a message,
+    // since Mermaid would otherwise silently create a new participant for a typo
+    const known = new Set<string>(participants.map(participant => participant.name));
+    for (const message of messages) {
+      known.add(message.from);
+      known.add(message.to);
+    }
+
+    for (const note of notes) {
+      for (const name of note.participants) {
+        if (!known.has(name)) {
+          this.addError(
+            this.tokenWithin(note, name),
+            `Note refers to unknown participant '${name}'`,
+            'UNKNOWN_NOTE_PARTICIPANT',
+            `Declare "participant ${name}" or fix the participant name`
+          );
+        }
+      }
+    }
   }
 
-  private validateXYChart(title: string, xAxis: string[], yAxis: any, data: any[]): void {
+  private validateXYChart(startToken: Token, title: string, xAxis: string[], yAxis: any, data: any[]): void {
     // Check that data is provided
     if (data.length === 0) {
       this.addError(
-        { type: TokenType.IDENTIFIER, value: 'data', line: 1, column: 1, position: 0 },
+        startToken,
         'No data provided for chart',
         'MISSING_DATA',
         'Add bar, line, or other data series to the chart'
@@ -1021,148 +1705,1003 @@ export class Parser {
     }
   }
 
-  private parseClassDiagram(): ASTNode {
+  private parseClassDiagram(): ClassDiagramNode {
     const startToken = this.currentToken();
     this.advance(); // Skip classDiagram
 
-    // Parse class diagram content
+    const classes = new Map<string, ClassDefinition>();
+    const relations: ClassRelation[] = [];
+    const namespaces: ClassNamespace[] = [];
+    const openNamespaces: { namespace: ClassNamespace; braceToken: Token }[] = [];
+
+    // Classes can be declared explicitly or introduced by relations and member lines
+    const classFor = (name: string, token: Token): ClassDefinition => {
+      const className = name.replace(/^`|`$/g, '');
+      let definition = classes.get(className);
+      if (!definition) {
+        definition = { type: 'classDefinition', line: token.line, column: token.column, range: token.range, name: className, annotations: [], members: [] };
+        const currentNamespace = openNamespaces[openNamespaces.length - 1]?.namespace;
+        if (currentNamespace) {
+          definition.namespace = currentNamespace.name;
+          currentNamespace.classes.push(className);
+        }
+        classes.set(className, definition);
+      }
+      return definition;
+    };
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
       const token = this.currentToken();
       
-      if (token.type === TokenType.DIRECTIVE) {
-        // Skip directives - they are configuration, not diagram elements
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not diagram elements
         this.advance();
-      } else if (token.value === 'classDef') {
+        continue;
+      }
+
+      if (token.value === 'classDef') {
         // Handle styling directives that are valid in class diagrams
         this.parseClassDef();
-      } else if (token.value === 'class') {
-        // For class diagrams, just skip the class assignment
-        this.advance(); // Skip 'class'
-        // Skip class name if present
-        if (this.currentToken().type === TokenType.IDENTIFIER) {
-          this.advance();
-        }
-        // Skip class name if present (for "class Animal animalClass" syntax)
-        if (this.currentToken().type === TokenType.IDENTIFIER) {
-          this.advance();
-        }
-      } else if (token.value === 'linkStyle' || token.value === 'style' || token.value === 'click' || token.value === 'note') {
+        continue;
+      }
+
+      if (token.value === 'linkStyle' || token.value === 'style' || token.value === 'click' || token.value === 'note') {
         // These styling directives are not valid in class diagrams
         this.addError(token, 
           `${token.value} directive is not supported in class diagrams`, 
           'UNSUPPORTED_STYLING_DIRECTIVE', 
           'Only classDef and class directives are supported in class diagrams');
         // Skip the directive to continue parsing
-        this.skipUntilSemicolon();
-      } else if (token.type === TokenType.DOUBLE_PAREN_OPEN || token.type === TokenType.DOUBLE_PAREN_CLOSE) {
+        this.skipStatement();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const doubleParen = lineTokens.find(t => t.type === TokenType.DOUBLE_PAREN_OPEN || t.type === TokenType.DOUBLE_PAREN_CLOSE);
+      if (doubleParen) {
         // Double-parentheses syntax is not valid in class diagrams
-        this.addError(token, 
+        this.addError(doubleParen, 
           'Double-parentheses syntax ((text)) is not supported in class diagrams', 
           'UNSUPPORTED_NODE_SHAPE', 
           'Use standard class syntax instead');
-        this.advance();
-      } else {
-        // Skip other tokens (class definitions, relationships, etc.)
-        this.advance();
+        continue;
+      }
+
+      const text = this.lineText(lineTokens);
+      const first = lineTokens[0];
+
+      if (text === '}') {
+        const closed = openNamespaces.pop();
+        if (!closed) {
+          this.addError(first, 
+            'Unexpected "}" without a matching class body or namespace', 
+            'UNMATCHED_CLASS_BRACE', 
+            'Remove the extra "}" or add the opening "{"');
+        } else {
+          this.closeRange(closed.namespace);
+        }
+        continue;
+      }
+
+      if (/^(direction|accTitle|accDescr|cssClass|callback|link)\b/.test(text)) {
+        // Layout, accessibility and interaction statements do not affect the class model
+        continue;
+      }
+
+      const namespaceMatch = /^namespace\s+([\w.\-]+)\s*\{$/.exec(text);
+      if (namespaceMatch) {
+        const namespace: ClassNamespace = { type: 'namespace', line: first.line, column: first.column, range: this.rangeFrom(first), name: namespaceMatch[1], classes: [] };
+        namespaces.push(namespace);
+        openNamespaces.push({ namespace, braceToken: lineTokens[lineTokens.length - 1] });
+        continue;
+      }
+
+      const annotationMatch = /^<<\s*(.+?)\s*>>\s*(`[^`]+`|[\w\-]+)$/.exec(text);
+      if (annotationMatch) {
+        classFor(annotationMatch[2], first).annotations.push(annotationMatch[1]);
+        continue;
+      }
+
+      if (first.value === 'class') {
+        this.parseClassDeclaration(lineTokens, text, classFor);
+        continue;
+      }
+
+      const relationMatch = /^(`[^`]+`|[\w~]+)\s*(?:"([^"]*)"\s*)?(\S*?(?:--|\.\.)\S*?)\s*(?:"([^"]*)"\s*)?(`[^`]+`|[\w~]+)\s*(?::\s*(.*))?$/.exec(text);
+      if (relationMatch) {
+        const relation = this.parseClassRelation(relationMatch, lineTokens);
+        if (relation) {
+          classFor(relationMatch[1], first);
+          classFor(relationMatch[5], first);
+          relations.push(relation);
+        }
+        continue;
+      }
+
+      const memberMatch = /^(`[^`]+`|[\w~\-]+)\s*:\s*(.+)$/.exec(text);
+      if (memberMatch) {
+        classFor(memberMatch[1], first).members.push(this.parseClassMember(memberMatch[2], first));
+        continue;
+      }
+
+      const unknownOperatorMatch = /^(`[^`]+`|[\w~\-]+)\s+(\S*[^\w\s"`:]\S*)\s+(`[^`]+`|[\w~\-]+)\s*(?::.*)?$/.exec(text);
+      if (unknownOperatorMatch) {
+        // Looks like a relation, but the operator is not one Mermaid knows
+        this.addError(lineTokens[1] || first, 
+          `Unknown relationship operator '${unknownOperatorMatch[2]}'`, 
+          'UNKNOWN_CLASS_RELATION', 
+          'Use one of <|--, *--, o--, -->, --, ..>, ..|> or ..');
+        continue;
+      }
+
+      if (/^(`[^`]+`|[\w~\-]+)$/.test(text)) {
+        classFor(text, first);
       }
     }
 
+    for (const { namespace, braceToken } of openNamespaces) {
+      this.closeRange(namespace);
+      this.addError(braceToken, 
+        `Namespace '${namespace.name}' is not closed`, 
+        'UNCLOSED_NAMESPACE', 
+        'Add "}" to close the namespace');
+    }
+
     return {
       type: 'class',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
+      classes: Array.from(classes.values()),
+      relations,
+      namespaces
+    };
+  }
+
+  private parseClassDeclaration(lineTokens: Token[], text: string, classFor: (name: string, token: Token) => ClassDefinition): void {
+    // class Name[~Generic~][["Label"]][:::style| style] [{ ... }]; the body can close on this line or continue on later ones
+    const match = /^class\s+(`[^`]+`|[\w\-]+)(?:~([^~]+)~)?(?:\["([^"]*)"\])?(?::::[\w\-]+)?(?:\s+[\w\-]+)?\s*(?:(\{)\s*(.*?)\s*(\})?)?$/.exec(text);
+    if (!match) {
+      this.addError(lineTokens[0], 
+        `Invalid class declaration '${text}'`, 
+        'INVALID_CLASS_DECLARATION', 
+        'Use "class Name", "class Name~T~" or "class Name { ... }"');
+      return;
+    }
+
+    const definition = classFor(match[1], lineTokens[0]);
+    if (match[2]) {
+      definition.generic = match[2];
+    }
+    if (match[3] !== undefined) {
+      definition.label = match[3];
+    }
+
+    const braceIndex = lineTokens.findIndex(t => t.type === TokenType.BRACE_OPEN);
+    if (match[5]) {
+      this.addClassBodyLine(definition, match[5], lineTokens[braceIndex + 1]);
+    }
+    if (match[4] && !match[6]) {
+      this.parseClassBody(definition, lineTokens[braceIndex] || lineTokens[0]);
+    }
+  }
+
+  private parseClassBody(definition: ClassDefinition, braceToken: Token): void {
+    while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
+      if (this.currentToken().type === TokenType.COMMENT) {
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.peekLineTokens();
+      const text = this.lineText(lineTokens);
+
+      // A new declaration, namespace or relation means this body was never closed
+      if (lineTokens[0].value === 'class' || lineTokens[0].value === 'namespace' || 
+          /^(`[^`]+`|[\w~]+)\s*(?:"[^"]*"\s*)?\S*?(?:--|\.\.)/.test(text)) {
+        break;
+      }
+
+      for (let i = 0; i < lineTokens.length; i++) {
+        this.advance();
+      }
+
+      const closesBody = text.endsWith('}');
+      this.addClassBodyLine(definition, closesBody ? text.slice(0, -1).trim() : text, lineTokens[0]);
+
+      if (closesBody) {
+        return;
+      }
+    }
+
+    this.addError(braceToken, 
+      `Class body for '${definition.name}' is not closed`, 
+      'UNCLOSED_CLASS_BODY', 
+      'Add "}" to close the class body');
+  }
+
+  private addClassBodyLine(definition: ClassDefinition, text: string, token: Token): void {
+    // A body line holds an annotation such as <<interface>> or one member
+    const annotationMatch = /^<<\s*(.+?)\s*>>$/.exec(text);
+    if (annotationMatch) {
+      definition.annotations.push(annotationMatch[1]);
+    } else if (text.length > 0) {
+      definition.members.push(this.parseClassMember(text, token));
+    }
+  }
+
+  private parseClassMember(text: string, token: Token): ClassMember {
+    const visibility = /^[+\-#~]/.test(text) ? text[0] as ClassMember['visibility'] : undefined;
+    const declaration = visibility ? text.slice(1).trim() : text.trim();
+
+    // Methods: name(parameters)[$|*] [returnType]
+    const method = /^(.*?)\((.*)\)([$*])?\s*(.*)$/.exec(declaration);
+    if (method) {
+      return {
+        type: 'member',
+        line: token.line,
+        column: token.column,
+        range: this.rangeFrom(token),
+        kind: 'method',
+        name: method[1].trim(),
+        visibility,
+        parameters: method[2],
+        classifier: method[3] as ClassMember['classifier'],
+        memberType: method[4] || undefined
+      };
+    }
+
+    // Attributes: "Type name", "name: Type" or just "name", optionally followed by $ or *
+    const classifier = /[$*]$/.test(declaration) ? declaration.slice(-1) as ClassMember['classifier'] : undefined;
+    const attribute = classifier ? declaration.slice(0, -1).trim() : declaration;
+    let name = attribute;
+    let memberType: string | undefined;
+    const colonIndex = attribute.indexOf(':');
+    if (colonIndex !== -1) {
+      name = attribute.slice(0, colonIndex).trim();
+      memberType = attribute.slice(colonIndex + 1).trim();
+    } else if (/\s/.test(attribute)) {
+      const lastSpace = attribute.search(/\S+$/);
+      memberType = attribute.slice(0, lastSpace).trim();
+      name = attribute.slice(lastSpace);
+    }
+
+    return {
+      type: 'member',
+      line: token.line,
+      column: token.column,
+      range: this.rangeFrom(token),
+      kind: 'attribute',
+      name,
+      visibility,
+      memberType,
+      classifier
+    };
+  }
+
+  private parseClassRelation(match: RegExpExecArray, lineTokens: Token[]): ClassRelation | null {
+    const operator = match[3];
+    const operatorMatch = /^(<\||\*|o|<|\(\))?(--|\.\.)(\|>|\*|o|>|\(\))?$/.exec(operator);
+    if (!operatorMatch) {
+      const operatorToken = lineTokens.find(t => operator.startsWith(t.value)) || lineTokens[0];
+      this.addError(operatorToken, 
+        `Unknown relationship operator '${operator}'`, 
+        'UNKNOWN_CLASS_RELATION', 
+        'Use one of <|--, *--, o--, -->, --, ..>, ..|> or ..');
+      return null;
+    }
+
+    const head = operatorMatch[1] || operatorMatch[3] || '';
+    const dashed = operatorMatch[2] === '..';
+    let relationType: ClassRelation['relationType'] = 'link';
+    if (head === '<|' || head === '|>') {
+      relationType = dashed ? 'realization' : 'inheritance';
+    } else if (head === '*') {
+      relationType = 'composition';
+    } else if (head === 'o') {
+      relationType = 'aggregation';
+    } else if (head === '<' || head === '>') {
+      relationType = dashed ? 'dependency' : 'association';
+    } else if (head === '()') {
+      relationType = 'lollipop';
+    }
+
+    return {
+      type: 'relation',
+      line: lineTokens[0].line,
+      column: lineTokens[0].column,
+      range: this.rangeFrom(lineTokens[0]),
+      from: match[1].replace(/^`|`$/g, ''),
+      to: match[5].replace(/^`|`$/g, ''),
+      operator,
+      relationType,
+      lineStyle: dashed ? 'dashed' : 'solid',
+      fromCardinality: match[2],
+      toCardinality: match[4],
+      label: match[6]
     };
   }
 
-  private parseStateDiagram(): ASTNode {
+  private parseStateDiagram(): StateDiagramNode {
     const startToken = this.currentToken();
     this.advance(); // Skip stateDiagram-v2
 
-    // Parse state diagram content
+    let direction: string | undefined;
+    const root: StateRegion = { type: 'region', line: startToken.line, column: startToken.column, range: this.rangeFrom(startToken), states: [], transitions: [], notes: [] };
+    const openComposites: { state: StateDefinition; region: StateRegion; token: Token }[] = [];
+    const statesById = new Map<string, StateDefinition>();
+
+    const currentRegion = (): StateRegion => openComposites[openComposites.length - 1]?.region || root;
+    const closeComposite = ({ state, region, token }: { state: StateDefinition; region: StateRegion; token: Token }): void => {
+      this.closeRange(region);
+      // A state mentioned before its composite declaration keeps the range of that first mention
+      if (state.range.start.offset === token.position) {
+        this.closeRange(state);
+      }
+    };
+
+    // States are declared explicitly or on first use, in the region where they first appear
+    const stateFor = (id: string, token: Token): StateDefinition => {
+      let state = statesById.get(id);
+      if (!state) {
+        state = { type: 'stateDefinition', line: token.line, column: token.column, range: token.range, id, descriptions: [], kind: 'simple' };
+        statesById.set(id, state);
+        currentRegion().states.push(state);
+      }
+      return state;
+    };
+
+    const stateId = '(\\[\\*\\]|[\\w\\-.]+)(?::::[\\w\\-]+)?';
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
       const token = this.currentToken();
       
-      if (token.type === TokenType.DIRECTIVE) {
-        // Skip directives - they are configuration, not diagram elements
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not diagram elements
         this.advance();
-      } else if (token.value === 'classDef') {
+        continue;
+      }
+
+      if (token.value === 'classDef') {
         // Handle styling directives that are valid in state diagrams
         this.parseClassDef();
-      } else if (token.value === 'class') {
+        continue;
+      }
+
+      if (token.value === 'class') {
         this.parseClassAssignment();
-      } else if (token.value === 'linkStyle' || token.value === 'style' || token.value === 'click' || token.value === 'note') {
+        continue;
+      }
+
+      if (token.value === 'linkStyle' || token.value === 'style' || token.value === 'click') {
         // These styling directives are not valid in state diagrams
         this.addError(token, 
           `${token.value} directive is not supported in state diagrams`, 
           'UNSUPPORTED_STYLING_DIRECTIVE', 
           'Only classDef and class directives are supported in state diagrams');
         // Skip the directive to continue parsing
-        this.skipUntilSemicolon();
-      } else {
-        // Skip other tokens (states, transitions, etc.)
-        this.advance();
+        this.skipStatement();
+        continue;
+      }
+
+      if (token.value === 'note') {
+        const note = this.parseStateNote();
+        if (note) {
+          stateFor(note.state, token);
+          currentRegion().notes.push(note);
+        }
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const doubleParen = lineTokens.find(t => t.type === TokenType.DOUBLE_PAREN_OPEN || t.type === TokenType.DOUBLE_PAREN_CLOSE);
+      if (doubleParen) {
+        // Double-parentheses syntax is not valid in state diagrams
+        this.addError(doubleParen, 
+          'Double-parentheses syntax ((text)) is not supported in state diagrams', 
+          'UNSUPPORTED_NODE_SHAPE', 
+          'Use plain state names instead');
+        continue;
+      }
+
+      const text = this.lineText(lineTokens);
+      const first = lineTokens[0];
+
+      if (text === '}') {
+        const closed = openComposites.pop();
+        if (!closed) {
+          this.addError(first, 
+            'Unexpected "}" without a matching composite state', 
+            'UNMATCHED_STATE_BRACE', 
+            'Remove the extra "}" or open the composite with state Name {');
+        } else {
+          closeComposite(closed);
+        }
+        continue;
+      }
+
+      if (text === '--') {
+        // Concurrency separator: start a new region in the enclosing composite state
+        const composite = openComposites[openComposites.length - 1];
+        if (composite) {
+          this.closeRange(composite.region, first);
+          composite.region = { type: 'region', line: first.line, column: first.column, range: this.rangeFrom(first), states: [], transitions: [], notes: [] };
+          composite.state.regions!.push(composite.region);
+        }
+        continue;
+      }
+
+      const directionMatch = /^direction\s+(\w+)$/.exec(text);
+      if (directionMatch) {
+        if (openComposites.length === 0) {
+          direction = directionMatch[1];
+        }
+        continue;
+      }
+
+      if (/^(accTitle|accDescr|hide\s+empty\s+description)\b/.test(text)) {
+        continue;
+      }
+
+      if (first.value === 'state') {
+        const declaration = /^state\s+(?:"([^"]*)"\s+as\s+([\w\-.]+)|([\w\-.]+)(?:\s*:\s*(.+?))?)\s*(?:<<\s*(\w+)\s*>>)?\s*(\{)?$/.exec(text);
+        if (!declaration) {
+          this.addError(first, 
+            `Invalid state declaration '${text}'`, 
+            'INVALID_STATE_DECLARATION', 
+            'Use "state Name", "state \\"Description\\" as Name", "state Name <<fork>>" or "state Name {"');
+          continue;
+        }
+
+        const state = stateFor(declaration[2] || declaration[3], first);
+        if (declaration[1] !== undefined) {
+          state.label = declaration[1];
+        }
+        if (declaration[4]) {
+          state.descriptions.push(declaration[4]);
+        }
+        if (declaration[5]) {
+          if (['fork', 'join', 'choice'].includes(declaration[5])) {
+            state.kind = declaration[5] as StateDefinition['kind'];
+          } else {
+            this.addError(first, 
+              `Unknown state type <<${declaration[5]}>>`, 
+              'INVALID_STATE_TYPE', 
+              'Use <<fork>>, <<join>> or <<choice>>');
+          }
+        }
+        if (declaration[6]) {
+          const region: StateRegion = { type: 'region', line: first.line, column: first.column, range: this.rangeFrom(first), states: [], transitions: [], notes: [] };
+          state.kind = 'composite';
+          state.regions = [...(state.regions || []), region];
+          openComposites.push({ state, region, token: first });
+        }
+        continue;
+      }
+
+      const transition = new RegExp(`^${stateId}\\s*-->\\s*${stateId}\\s*(?::\\s*(.*))?$`).exec(text);
+      if (transition) {
+        const region = currentRegion();
+        for (const id of [transition[1], transition[2]]) {
+          if (id !== '[*]') {
+            stateFor(id, first);
+          }
+        }
+        region.transitions.push({
+          type: 'transition',
+          line: first.line,
+          column: first.column,
+          range: this.rangeFrom(first),
+          from: transition[1],
+          to: transition[2],
+          label: transition[3]
+        });
+        continue;
+      }
+
+      if (text.includes('-->')) {
+        this.addError(first, 
+          `Invalid state transition '${text}'`, 
+          'INVALID_STATE_TRANSITION', 
+          'Use "StateA --> StateB" with an optional ": label"');
+        continue;
+      }
+
+      const description = /^([\w\-.]+)\s*:\s*(.+)$/.exec(text);
+      if (description) {
+        stateFor(description[1], first).descriptions.push(description[2]);
+        continue;
+      }
+
+      if (new RegExp(`^${stateId}$`).test(text) && text !== '[*]') {
+        stateFor(text.replace(/:::.*$/, ''), first);
       }
     }
 
+    for (const composite of openComposites) {
+      closeComposite(composite);
+    }
+    for (const { state, token } of openComposites) {
+      this.addError(token, 
+        `Composite state '${state.id}' is not closed`, 
+        'UNCLOSED_COMPOSITE_STATE', 
+        'Add "}" to close the composite state');
+    }
+
     return {
       type: 'state',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
+      direction,
+      states: root.states,
+      transitions: root.transitions,
+      notes: root.notes
     };
   }
 
-  private skipUntilSemicolon(): void {
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+  private parseStateNote(): StateNote | null {
+    const lineTokens = this.collectLineTokens();
+    const noteToken = lineTokens[0];
+    const text = this.lineText(lineTokens);
+
+    const match = /^note\s+(left|right)\s+of\s+([\w\-.]+)\s*(?::\s*(.*))?$/.exec(text);
+    if (!match) {
+      this.addError(noteToken, 
+        `Invalid note '${text}'`, 
+        'INVALID_STATE_NOTE', 
+        'Use "note left of State : text" or "note right of State" ... "end note"');
+      return null;
     }
-    if (this.currentToken().type === TokenType.SEMICOLON) {
-      this.advance();
+
+    let noteText = match[3];
+    if (noteText === undefined) {
+      // Multi-line note: everything up to "end note"
+      const lines: string[] = [];
+      let closed = false;
+      while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
+        const bodyTokens = this.collectLineTokens();
+        const bodyText = this.lineText(bodyTokens);
+        if (/^end\s+note$/.test(bodyText)) {
+          closed = true;
+          break;
+        }
+        lines.push(bodyText);
+      }
+      if (!closed) {
+        this.addError(noteToken, 
+          `Note on '${match[2]}' is not closed`, 
+          'UNCLOSED_STATE_NOTE', 
+          'Add "end note" after the note text');
+      }
+      noteText = lines.join('\n');
     }
+
+    return {
+      type: 'note',
+      line: noteToken.line,
+      column: noteToken.column,
+      range: this.rangeFrom(noteToken),
+      position: `${match[1]} of` as StateNote['position'],
+      state: match[2],
+      text: noteText
+    };
   }
 
-  private parsePieChart(): ASTNode {
+  private skipStatement(): void {
+    this.collectStatementTokens();
+  }
+
+  private parsePieChart(): PieNode {
     const startToken = this.currentToken();
     this.advance(); // Skip pie
 
-    // For now, just parse until end - full pie chart parsing is complex
+    let title: string | undefined;
+    let showData = false;
+    const slices: PieSlice[] = [];
+    const seenLabels = new Set<string>();
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not part of the chart data
+        this.advance();
+        continue;
+      }
+
+      if (token.value === 'showData') {
+        showData = true;
+        this.advance();
+        continue;
+      }
+
+      if (token.value === 'accDescr' && this.peekToken()?.type === TokenType.BRACE_OPEN) {
+        // Multi-line accessibility description: accDescr { ... }
+        while (!this.isAtEnd() && this.currentToken().type !== TokenType.BRACE_CLOSE) {
+          this.advance();
+        }
+        this.advance(); // Skip }
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const first = lineTokens[0];
+
+      if (first.value === 'title') {
+        title = this.lineText(lineTokens.slice(1));
+      } else if (first.value === 'accTitle' || first.value === 'accDescr') {
+        // Accessibility metadata does not affect the chart data
+      } else {
+        const slice = this.parsePieSlice(lineTokens);
+        if (slice) {
+          if (seenLabels.has(slice.label)) {
+            this.addError(first, 
+              `Duplicate pie slice label "${slice.label}"`, 
+              'DUPLICATE_PIE_LABEL', 
+              'Use a unique label for each slice or combine the values');
+          } else {
+            seenLabels.add(slice.label);
+          }
+          slices.push(slice);
+        }
+      }
     }
 
     return {
       type: 'pie',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
+      showData,
+      slices
     };
   }
 
-  private parseJourney(): ASTNode {
-    const startToken = this.currentToken();
-    this.advance(); // Skip journey
+  private parsePieSlice(lineTokens: Token[]): PieSlice | null {
+    // Slices take the form: "Label" : value
+    const labelToken = lineTokens[0];
+    if (labelToken.type !== TokenType.STRING) {
+      this.addError(labelToken, 
+        'Pie slice label must be a quoted string', 
+        'INVALID_PIE_SLICE', 
+        'Use "Label" : value format');
+      return null;
+    }
 
-    // For now, just parse until end - full journey parsing is complex
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+    const colonToken = lineTokens[1];
+    if (!colonToken || colonToken.type !== TokenType.COLON) {
+      this.addError(colonToken || labelToken, 
+        'Expected ":" after pie slice label', 
+        'INVALID_PIE_SLICE', 
+        'Use "Label" : value format');
+      return null;
+    }
+
+    const valueText = this.lineText(lineTokens.slice(2));
+    if (valueText.length === 0) {
+      this.addError(colonToken, 
+        'Pie slice is missing a value', 
+        'INVALID_PIE_SLICE', 
+        'Add a numeric value after the colon');
+      return null;
+    }
+
+    const valueToken = lineTokens[2];
+    if (!/^-?\d+(\.\d+)?$/.test(valueText)) {
+      this.addError(valueToken, 
+        `Pie slice value '${valueText}' is not a number`, 
+        'INVALID_PIE_VALUE', 
+        'Use a positive number such as 42 or 12.5');
+      return null;
+    }
+
+    const value = parseFloat(valueText);
+    if (value < 0) {
+      this.addError(valueToken, 
+        `Pie slice value ${valueText} is negative`, 
+        'NEGATIVE_PIE_VALUE', 
+        'Pie slice values must be zero or greater');
     }
 
     return {
-      type: 'journey',
-      line: startToken.line,
-      column: startToken.column
+      type: 'slice',
+      line: labelToken.line,
+      column: labelToken.column,
+      range: this.rangeFrom(labelToken),
+      label: labelToken.value.slice(1, -1),
+      value
     };
   }
 
-  private collectIdentifiersAsLabel(includeNumbers: boolean = false): string {
-    // Collect multiple identifiers (and optionally numbers) as a single label
-    const parts: string[] = [];
-    while ((this.currentToken().type === TokenType.IDENTIFIER || 
-           (includeNumbers && this.currentToken().type === TokenType.NUMBER)) && 
-           !this.isAtEnd()) {
-      parts.push(this.currentToken().value);
-      this.advance();
-    }
-    return parts.join(' ');
-  }
+  private parseJourney(): JourneyNode {
+    const startToken = this.currentToken();
+    this.advance(); // Skip journey
+
+    let title: string | undefined;
+    const sections: JourneySection[] = [];
+    let currentSection: JourneySection | undefined;
+
+    while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not journey content
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const first = lineTokens[0];
+
+      if (first.value === 'title') {
+        title = this.lineText(lineTokens.slice(1));
+        continue;
+      }
+
+      if (first.value === 'accTitle' || first.value === 'accDescr') {
+        continue;
+      }
+
+      if (first.value === 'section') {
+        currentSection = {
+          type: 'section',
+          line: first.line,
+          column: first.column,
+          range: this.rangeFrom(first),
+          name: this.lineText(lineTokens.slice(1)),
+          tasks: []
+        };
+        sections.push(currentSection);
+        continue;
+      }
+
+      const task = this.parseJourneyTask(lineTokens);
+      if (!task) {
+        continue;
+      }
+
+      if (!currentSection) {
+        this.addError(first, 
+          `Task '${task.name}' appears before any section`, 
+          'JOURNEY_TASK_WITHOUT_SECTION', 
+          'Add a section line before the task, e.g. section Getting started');
+        continue;
+      }
+
+      currentSection.tasks.push(task);
+      this.closeRange(currentSection);
+    }
+
+    return {
+      type: 'journey',
+      line: startToken.line,
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
+      sections
+    };
+  }
+
+  private parseJourneyTask(lineTokens: Token[]): JourneyTask | null {
+    const first = lineTokens[0];
+    const text = this.lineText(lineTokens);
+    const parts = this.splitWithOffsets(text, first.position, ':');
+
+    if (parts.length < 2 || parts[0].value.length === 0) {
+      this.addError(first, 
+        `Invalid journey task: "${text}"`, 
+        'INVALID_JOURNEY_TASK', 
+        'Use the format: Task name: score: Actor1, Actor2');
+      return null;
+    }
+
+    const [namePart, scorePart, ...actorParts] = parts;
+    const scoreToken = this.tokenAtOffset(scorePart.offset, scorePart.value);
+
+    if (!/^-?\d+$/.test(scorePart.value)) {
+      this.addError(scoreToken, 
+        `Invalid score '${scorePart.value}' for task '${namePart.value}'`, 
+        'INVALID_JOURNEY_SCORE', 
+        'Use a whole number score from 1 to 5');
+      return null;
+    }
+
+    const score = parseInt(scorePart.value, 10);
+    if (score < 1 || score > 5) {
+      this.addError(scoreToken, 
+        `Score ${score} for task '${namePart.value}' is outside the range 1-5`, 
+        'JOURNEY_SCORE_OUT_OF_RANGE', 
+        'Use a score from 1 (negative) to 5 (positive)');
+    }
+
+    // Colons after the score are part of the actor list
+    const actorText = actorParts.map(part => part.value).join(':');
+    const actors = actorText.split(',').map(actor => actor.trim()).filter(actor => actor.length > 0);
+    if (actors.length === 0) {
+      this.addError(first, 
+        `Task '${namePart.value}' has no actors`, 
+        'MISSING_JOURNEY_ACTORS', 
+        `Add actors after the score, e.g. ${namePart.value}: ${score}: Me`);
+    }
+
+    return {
+      type: 'task',
+      line: first.line,
+      column: first.column,
+      range: this.rangeFrom(first),
+      name: namePart.value,
+      score,
+      actors
+    };
+  }
+
+  private collectLineTokens(): Token[] {
+    // Consume every token on the current source line, ignoring trailing comments
+    const tokens: Token[] = [];
+    const startLine = this.currentToken().line;
+    while (!this.isAtEnd() && this.currentToken().line === startLine) {
+      if (this.currentToken().type !== TokenType.COMMENT) {
+        tokens.push(this.currentToken());
+      }
+      this.advance();
+    }
+    return tokens;
+  }
+
+  private collectStatementTokens(startLine: number = this.currentToken().line): Token[] {
+    // Like collectLineTokens, but a semicolon may also end the statement
+    const tokens: Token[] = [];
+    while (!this.isAtEnd() && this.currentToken().line === startLine && this.currentToken().type !== TokenType.SEMICOLON) {
+      if (this.currentToken().type !== TokenType.COMMENT) {
+        tokens.push(this.currentToken());
+      }
+      this.advance();
+    }
+    if (this.currentToken().type === TokenType.SEMICOLON && this.currentToken().line === startLine) {
+      this.advance();
+    }
+    return tokens;
+  }
+
+  private peekLineTokens(): Token[] {
+    // Look at the tokens on the current source line without consuming them
+    const tokens: Token[] = [];
+    const startLine = this.currentToken().line;
+    for (let i = this.position; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === TokenType.EOF || token.line !== startLine) break;
+      if (token.type !== TokenType.COMMENT) {
+        tokens.push(token);
+      }
+    }
+    return tokens;
+  }
+
+  private lineText(tokens: Token[]): string {
+    // Recover the original source text spanned by a run of tokens
+    if (tokens.length === 0) return '';
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    return this.input.slice(first.position, last.position + last.value.length).trim();
+  }
+
+  private splitWithOffsets(text: string, baseOffset: number, separator: string): { value: string; offset: number }[] {
+    // Split raw source text while remembering where each trimmed part starts
+    const parts: { value: string; offset: number }[] = [];
+    let partStart = 0;
+    for (const raw of text.split(separator)) {
+      const leading = raw.length - raw.trimStart().length;
+      parts.push({ value: raw.trim(), offset: baseOffset + partStart + leading });
+      partStart += raw.length + separator.length;
+    }
+    return parts;
+  }
+
+  private tokenAtOffset(offset: number, value: string): Token {
+    // Build a token for an arbitrary source offset so errors can point inside a line
+    const start = this.positionAt(offset);
+    const end = this.positionAt(offset + value.length);
+    return { type: TokenType.IDENTIFIER, value, line: start.line, column: start.column, position: offset, range: { start, end } };
+  }
+
+  private tokenWithin(at: ASTNode, value: string): Token {
+    // The source token for a name inside a node, such as a class name in A:::name; falls back to the whole node
+    return this.tokens.find(token => token.position >= at.range.start.offset && token.position < at.range.end.offset &&
+      (token.value === value || (token.type === TokenType.STRING && token.value.slice(1, -1) === value))) ?? this.tokenFor(at, value);
+  }
+
+  private tokenFor(at: ASTNode, value: string): Token {
+    // Findings about an AST node cover the node's whole range
+    return { type: TokenType.IDENTIFIER, value, line: at.line, column: at.column, position: at.range.start.offset, range: at.range };
+  }
+
+  private rangeFrom(startToken: Token): Range {
+    // An AST node spans from its first token to the last token consumed when it was built
+    for (let i = Math.min(this.position, this.tokens.length) - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (token.position < startToken.position) break;
+      if (token.type !== TokenType.COMMENT && token.type !== TokenType.EOF) {
+        return { start: startToken.range.start, end: token.range.end };
+      }
+    }
+    return startToken.range;
+  }
+
+  private closeRange(node: ASTNode, before?: Token): void {
+    // Containers are built at their opening line; once their body is parsed they grow to cover it,
+    // up to the last token consumed before `before` when a sibling starts the next container
+    for (let i = Math.min(this.position, this.tokens.length) - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (token.position < node.range.start.offset) return;
+      if (before && token.position >= before.position) continue;
+      if (token.type !== TokenType.COMMENT && token.type !== TokenType.EOF) {
+        node.range = { start: node.range.start, end: token.range.end };
+        return;
+      }
+    }
+  }
+
+  private offsetAt(line: number, column: number): number {
+    let offset = 0;
+    for (let current = 1; current < line && offset < this.input.length; offset++) {
+      if (this.endsLine(offset)) current++;
+    }
+    return Math.min(offset + column - 1, this.input.length);
+  }
+
+  private positionAt(offset: number): Position {
+    let line = 1;
+    let column = 1;
+    for (let i = 0; i < offset && i < this.input.length; i++) {
+      if (this.endsLine(i)) {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    return { line, column, offset };
+  }
+
+  private endsLine(offset: number): boolean {
+    // Same rule as the lexer: LF, or a carriage return that is not part of CRLF
+    return this.input[offset] === '\n' || (this.input[offset] === '\r' && this.input[offset + 1] !== '\n');
+  }
+
+  private textEdit(start: number, end: number, text: string): TextEdit {
+    // A replacement of input[start, end) that fixMermaid can apply
+    return { range: { start: this.positionAt(start), end: this.positionAt(end) }, text };
+  }
+
+  private lineStart(offset: number): number {
+    return Math.max(this.input.lastIndexOf('\n', offset - 1), this.input.lastIndexOf('\r', offset - 1)) + 1;
+  }
+
+  private moveCommentAboveLine(commentToken: Token): TextEdit {
+    // "A --> B %% note" becomes "%% note" on its own line followed by "A --> B", keeping the indentation
+    const start = this.lineStart(commentToken.position);
+    const before = this.input.slice(start, commentToken.position).trimEnd();
+    const indent = /^[ \t]*/.exec(before)![0];
+    const comment = commentToken.value.replace(/(?:\r?\n|\r)$/, '');
+    const newline = this.input.includes('\r\n') ? '\r\n' : '\n';
+    return this.textEdit(start, commentToken.position + comment.length, `${indent}${comment}${newline}${before}`);
+  }
+
+  private quoteListEntry(token: Token): TextEdit {
+    // Quote the whole bracketed list entry around a token, e.g. [jan, feb&mar] -> [jan, "feb&mar"]
+    let start = token.position;
+    while (start > 0 && !/[,\[\n]/.test(this.input[start - 1])) start--;
+    let end = token.position + token.value.length;
+    while (end < this.input.length && !/[,\]\n]/.test(this.input[end])) end++;
+    const raw = this.input.slice(start, end);
+    start += raw.length - raw.trimStart().length;
+    end -= raw.length - raw.trimEnd().length;
+    return this.textEdit(start, end, `"${this.input.slice(start, end)}"`);
+  }
 
   private collectIdentifiersOnSameLine(): string {
     // Collect multiple identifiers as a single text, but only on the same line
@@ -1208,117 +2747,216 @@ export class Parser {
     }
     
     return false;
-  }  private parseClassDef(): void {
+  }
+
+  private parseClassDef(): ClassDefStatement {
     const classDefToken = this.currentToken();
     
     // Skip 'classDef'
     this.advance();
     
-    // Check for equals syntax in CSS properties (not supported in Mermaid CLI v11.12.0)
-    let hasEqualsSyntax = false;
-    let currentPos = this.position;
-    
-    // Look ahead to check for equals signs in the CSS properties
-    while (currentPos < this.tokens.length && 
-           this.tokens[currentPos].type !== TokenType.SEMICOLON && 
-           this.tokens[currentPos].type !== TokenType.EOF) {
-      if (this.tokens[currentPos].value === '=') {
-        hasEqualsSyntax = true;
-        break;
-      }
-      currentPos++;
+    // classDef name[,name...] property:value[,property:value...]
+    const tokens = this.collectStatementTokens(classDefToken.line);
+    const text = this.lineText(tokens);
+    const match = /^(\S+)\s*(.*)$/.exec(text);
+    const names = match ? match[1].split(',').filter(name => name.length > 0) : [];
+    const statement: ClassDefStatement = {
+      type: 'classDef',
+      line: classDefToken.line,
+      column: classDefToken.column,
+      range: this.rangeFrom(classDefToken),
+      names,
+      properties: []
+    };
+
+    if (names.length === 0) {
+      this.addError(classDefToken, 
+        'classDef requires a class name', 
+        'MISSING_CLASS_NAME', 
+        'Name the class before its styles, e.g. classDef highlight fill:#f9f');
+      return statement;
     }
-    
-    if (hasEqualsSyntax) {
+
+    // Check for equals syntax in CSS properties (not supported in Mermaid CLI v11.12.0)
+    const propertiesText = match![2];
+    const propertiesOffset = tokens[0].position + text.length - propertiesText.length;
+    if (propertiesText.includes('=')) {
       this.addError(classDefToken, 
         'classDef with equals syntax is not supported in flowcharts', 
         'UNSUPPORTED_CLASSDEF_EQUALS_SYNTAX', 
-        'Use colon syntax instead (e.g., fill:#f9f instead of fill=lightblue)');
-    }
-    
-    // Skip everything until semicolon (including class name and all styling properties)
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
-    }
-    
-    // Skip semicolon if present
-    if (this.currentToken().type === TokenType.SEMICOLON) {
-      this.advance();
+        'Use colon syntax instead (e.g., fill:#f9f instead of fill=lightblue)', 
+        this.textEdit(propertiesOffset, propertiesOffset + propertiesText.length, propertiesText.replace(/=/g, ':')));
+      return statement;
     }
+
+    statement.properties = this.parseStyleProperties(classDefToken, propertiesText, propertiesOffset);
+    return statement;
   }
-  private parseClassAssignment(): void {
+
+  private parseClassAssignment(): ClassAssignment {
+    const classToken = this.currentToken();
+
     // Skip 'class'
     this.advance();
     
-    // Skip class name
-    if (this.currentToken().type === TokenType.IDENTIFIER) {
-      this.advance();
-    }
-    
-    // If there's a class name after the first identifier, skip it too (for "class Animal animalClass" syntax)
-    if (this.currentToken().type === TokenType.IDENTIFIER) {
-      this.advance();
-    }
-    
-    // Skip everything until semicolon or EOF
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && 
-           this.currentToken().type !== TokenType.EOF) {
-      this.advance();
-    }
-    
-    // Skip semicolon if present
-    if (this.currentToken().type === TokenType.SEMICOLON) {
-      this.advance();
+    // class id[,id...] className
+    const text = this.lineText(this.collectStatementTokens(classToken.line));
+    const match = /^(\S+)\s+(\S+)$/.exec(text);
+    if (!match) {
+      this.addError(classToken, 
+        'class statement requires node ids and a class name', 
+        'MISSING_CLASS_NAME', 
+        'Use: class nodeId1,nodeId2 className');
+      return { type: 'classAssignment', line: classToken.line, column: classToken.column, range: this.rangeFrom(classToken), ids: [], className: '' };
     }
+
+    return {
+      type: 'classAssignment',
+      line: classToken.line,
+      column: classToken.column,
+      range: this.rangeFrom(classToken),
+      ids: match[1].split(',').filter(id => id.length > 0),
+      className: match[2]
+    };
   }
 
-  private parseLinkStyle(): void {
+  private parseLinkStyle(): LinkStyleStatement {
     const linkStyleToken = this.currentToken();
     
     // Skip 'linkStyle'
     this.advance();
     
-    // Extract the link index if it's a number
-    let linkIndex: number | null = null;
-    if (this.currentToken().type === TokenType.NUMBER) {
-      linkIndex = parseInt(this.currentToken().value);
-      this.advance();
-      
-      // Validate that the link index exists
-      // Note: We only validate when parsing flowcharts (linkCount > 0 or we have link styling)
-      // Other diagram types don't use linkStyle in the same way
-      if (linkIndex >= this.linkCount) {
-        this.addError(linkStyleToken, 
-          `linkStyle index ${linkIndex} is out of bounds (only ${this.linkCount} link(s) defined)`, 
-          'INVALID_LINKSTYLE_INDEX', 
-          `Use a link index between 0 and ${Math.max(0, this.linkCount - 1)}`);
+    // linkStyle default|index[,index...] [interpolate curve] property:value[,property:value...]
+    const tokens = this.collectStatementTokens(linkStyleToken.line);
+    const text = this.lineText(tokens);
+    const match = /^(\S+)\s*(.*)$/.exec(text);
+    const statement: LinkStyleStatement = {
+      type: 'linkStyle',
+      line: linkStyleToken.line,
+      column: linkStyleToken.column,
+      range: this.rangeFrom(linkStyleToken),
+      indices: [],
+      properties: []
+    };
+
+    if (match?.[1] === 'default') {
+      statement.indices = 'default';
+    } else if (match && /^\d+(?:,\d+)*$/.test(match[1])) {
+      statement.indices = match[1].split(',').map(index => parseInt(index));
+      for (const linkIndex of statement.indices) {
+        // Validate that the link index exists
+        // Note: We only validate when parsing flowcharts (linkCount > 0 or we have link styling)
+        // Other diagram types don't use linkStyle in the same way
+        if (linkIndex >= this.linkCount) {
+          this.addError(linkStyleToken, 
+            `linkStyle index ${linkIndex} is out of bounds (only ${this.linkCount} link(s) defined)`, 
+            'INVALID_LINKSTYLE_INDEX', 
+            `Use a link index between 0 and ${Math.max(0, this.linkCount - 1)}`);
+        }
       }
+    } else {
+      const found = match ? `, found '${match[1]}'` : '';
+      this.addError(linkStyleToken, 
+        `linkStyle expects 'default' or comma-separated link indices${found}`, 
+        'INVALID_LINKSTYLE_INDEX', 
+        'Use linkStyle default or linkStyle 0,1 followed by styles');
+      return statement;
     }
-    
-    // Skip everything until semicolon (including all styling properties)
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
-    }
-    
-    // Skip semicolon if present
-    if (this.currentToken().type === TokenType.SEMICOLON) {
-      this.advance();
+
+    let properties = match[2];
+    let propertiesOffset = tokens[0].position + text.length - properties.length;
+    const interpolate = /^interpolate\s+(\S+)(\s+|$)/.exec(properties);
+    if (interpolate) {
+      // Curve names from d3-shape that Mermaid accepts for link lines
+      const curves = ['basis', 'basisClosed', 'basisOpen', 'bumpX', 'bumpY', 'bundle', 'cardinal', 'cardinalClosed', 'cardinalOpen',
+        'catmullRom', 'catmullRomClosed', 'catmullRomOpen', 'linear', 'linearClosed', 'monotoneX', 'monotoneY', 'natural',
+        'step', 'stepAfter', 'stepBefore'];
+      statement.interpolate = interpolate[1];
+      if (!curves.includes(interpolate[1])) {
+        this.addWarning(this.tokenAtOffset(propertiesOffset + interpolate[0].indexOf(interpolate[1]), interpolate[1]), 
+          `Unknown link interpolation '${interpolate[1]}'`, 
+          'INVALID_LINK_INTERPOLATION', 
+          'Use a curve such as basis, linear, cardinal, monotoneX or step');
+      }
+      properties = properties.slice(interpolate[0].length);
+      propertiesOffset += interpolate[0].length;
+      if (properties.length === 0) {
+        // An interpolation alone is a complete statement
+        return statement;
+      }
     }
+    statement.properties = this.parseStyleProperties(linkStyleToken, properties, propertiesOffset);
+    return statement;
   }
 
-  private parseStyle(): void {
+  private parseStyle(): StyleStatement {
+    const styleToken = this.currentToken();
+
     // Skip 'style'
     this.advance();
     
-    // Skip everything until semicolon (including node identifier and all styling properties)
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+    // style id property:value[,property:value...]
+    const tokens = this.collectStatementTokens(styleToken.line);
+    const text = this.lineText(tokens);
+    const match = /^(\S+)\s*(.*)$/.exec(text);
+    if (!match) {
+      this.addError(styleToken, 
+        'style statement requires a node id', 
+        'MISSING_STYLE_TARGET', 
+        'Use: style nodeId fill:#f9f');
+      return { type: 'style', line: styleToken.line, column: styleToken.column, range: this.rangeFrom(styleToken), id: '', properties: [] };
     }
-    
-    // Skip semicolon if present
-    if (this.currentToken().type === TokenType.SEMICOLON) {
-      this.advance();
+
+    const propertiesOffset = tokens[0].position + text.length - match[2].length;
+    return {
+      type: 'style',
+      line: styleToken.line,
+      column: styleToken.column,
+      range: this.rangeFrom(styleToken),
+      id: match[1],
+      properties: this.parseStyleProperties(styleToken, match[2], propertiesOffset)
+    };
+  }
+
+  private parseStyleProperties(statementToken: Token, text: string, offset: number): StyleProperty[] {
+    if (text.length === 0) {
+      this.addError(statementToken, 
+        `${statementToken.value} requires at least one style property`, 
+        'MISSING_STYLE_PROPERTIES', 
+        'Add CSS properties such as fill:#f9f,stroke:#333');
+      return [];
+    }
+
+    // Split on commas, except inside parentheses as in rgb(0, 0, 0)
+    const parts: { value: string; offset: number }[] = [];
+    let depth = 0;
+    let partStart = 0;
+    for (let i = 0; i <= text.length; i++) {
+      const char = text[i];
+      if (char === '(') depth++;
+      if (char === ')') depth = Math.max(0, depth - 1);
+      if (i === text.length || (char === ',' && depth === 0)) {
+        const raw = text.slice(partStart, i);
+        if (raw.trim().length > 0) {
+          parts.push({ value: raw.trim(), offset: offset + partStart + raw.length - raw.trimStart().length });
+        }
+        partStart = i + 1;
+      }
     }
+
+    const properties: StyleProperty[] = [];
+    for (const part of parts) {
+      const colon = part.value.indexOf(':');
+      if (colon <= 0 || part.value.slice(colon + 1).trim().length === 0) {
+        this.addWarning(this.tokenAtOffset(part.offset, part.value), 
+          `Style property '${part.value}' is not a name:value pair`, 
+          'INVALID_STYLE_PROPERTY', 
+          'Write each property as name:value, e.g. stroke-width:2px');
+        continue;
+      }
+      properties.push({ name: part.value.slice(0, colon).trim(), value: part.value.slice(colon + 1).trim() });
+    }
+    return properties;
   }
 
   private parseClickStatement(): void {
@@ -1378,102 +3016,995 @@ export class Parser {
   }
 
   private skipTitleDirective(): void {
-    // Skip 'title'
-    this.advance();
-    
-    // Skip the title string if present
-    if (this.currentToken().type === TokenType.STRING) {
-      this.advance();
-    }
-    
-    // Skip everything until end of line or semicolon
-    while (!this.isAtEnd() && this.currentToken().type !== TokenType.SEMICOLON && this.currentToken().type !== TokenType.EOF) {
+    // Skip 'title' and everything until end of line or semicolon
+    this.skipStatement();
+  }
+
+  private parseGitgraph(): GitgraphNode {
+    const startToken = this.currentToken();
+    this.advance(); // Skip gitgraph
+
+    // Optional orientation and colon: gitGraph LR: / TB: / BT: / gitGraph:
+    let direction: string | undefined;
+    if (this.currentToken().line === startToken.line && ['LR', 'TB', 'BT'].includes(this.currentToken().value)) {
+      direction = this.currentToken().value;
       this.advance();
     }
-    
-    // Skip semicolon if present
-    if (this.currentToken().type === TokenType.SEMICOLON) {
+    if (this.currentToken().line === startToken.line && this.currentToken().type === TokenType.COLON) {
       this.advance();
     }
-  }
 
-  private parseGitgraph(): ASTNode {
-    const startToken = this.currentToken();
-    this.advance(); // Skip gitgraph
+    const commands: GitCommand[] = [];
+    const branches = [this.mainBranchName || 'main'];
+    const commitIds = new Set<string>();
+    let currentBranch = branches[0];
 
-    // For now, just parse until end - full gitgraph parsing is complex
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not git commands
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const text = this.lineText(lineTokens);
+      const first = lineTokens[0];
+      const statement = /^(commit|branch|checkout|switch|merge|cherry-pick)\b\s*(.*)$/.exec(text);
+
+      if (!statement) {
+        if (!/^(accTitle|accDescr)\b/.test(text)) {
+          this.addError(first, 
+            `Unknown gitgraph command '${first.value}'`, 
+            'INVALID_GITGRAPH_COMMAND', 
+            'Use commit, branch, checkout, switch, merge or cherry-pick');
+        }
+        continue;
+      }
+
+      const keyword = statement[1];
+      let rest = statement[2];
+      const command: GitCommand = {
+        type: 'gitCommand',
+        line: first.line,
+        column: first.column,
+        range: this.rangeFrom(first),
+        command: keyword === 'switch' ? 'checkout' : keyword as GitCommand['command'],
+        branch: currentBranch
+      };
+
+      if (keyword !== 'commit' && keyword !== 'cherry-pick') {
+        // branch, checkout and merge name a branch first
+        const nameMatch = /^("[^"]*"|[^\s"]+)\s*(.*)$/.exec(rest);
+        if (!nameMatch) {
+          this.addError(first, 
+            `${keyword} requires a branch name`, 
+            'MISSING_BRANCH_NAME', 
+            `Add a branch name, e.g. ${keyword} develop`);
+          continue;
+        }
+        command.branch = nameMatch[1].replace(/^"|"$/g, '');
+        rest = nameMatch[2];
+      }
+
+      const attributePattern = /(\w+)\s*:\s*("([^"]*)"|\S+)/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(rest)) !== null) {
+        const value = attribute[3] !== undefined ? attribute[3] : attribute[2];
+        if (attribute[1] === 'id') {
+          command.id = value;
+        } else if (attribute[1] === 'tag') {
+          command.tag = value;
+        } else if (attribute[1] === 'parent') {
+          command.parent = value;
+        } else if (attribute[1] === 'order') {
+          command.order = Number(value);
+        } else if (attribute[1] === 'type') {
+          if (['NORMAL', 'REVERSE', 'HIGHLIGHT'].includes(value)) {
+            command.commitType = value as GitCommand['commitType'];
+          } else {
+            this.addError(first, 
+              `Unknown commit type '${value}'`, 
+              'INVALID_COMMIT_TYPE', 
+              'Use type: NORMAL, type: REVERSE or type: HIGHLIGHT');
+          }
+        }
+      }
+
+      this.simulateGitCommand(command, first, branches, commitIds, currentBranch);
+      // A failed checkout still moves to the named branch, so later commands are not checked against the old one
+      if (command.command === 'branch' || command.command === 'checkout') {
+        currentBranch = command.branch;
+      }
+      commands.push(command);
     }
 
     return {
       type: 'gitgraph',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
+      direction,
+      branches,
+      commands
     };
   }
 
-  private parseMindmap(): ASTNode {
+  private simulateGitCommand(command: GitCommand, token: Token, branches: string[], commitIds: Set<string>, currentBranch: string): void {
+    // Replay the command against the branch state Mermaid builds while rendering
+    switch (command.command) {
+      case 'branch':
+        if (branches.includes(command.branch)) {
+          this.addError(token, 
+            `Branch '${command.branch}' already exists`, 
+            'DUPLICATE_BRANCH', 
+            `Use checkout ${command.branch} to switch to the existing branch`);
+        } else {
+          branches.push(command.branch);
+        }
+        break;
+      case 'checkout':
+        if (!branches.includes(command.branch)) {
+          this.addError(token, 
+            `Cannot checkout branch '${command.branch}' because it does not exist`, 
+            'UNKNOWN_BRANCH', 
+            `Create it first with branch ${command.branch}`);
+        }
+        break;
+      case 'merge':
+        if (!branches.includes(command.branch)) {
+          this.addError(token, 
+            `Cannot merge branch '${command.branch}' because it does not exist`, 
+            'UNKNOWN_BRANCH', 
+            `Create it first with branch ${command.branch}`);
+        } else if (command.branch === currentBranch) {
+          this.addError(token, 
+            `Cannot merge branch '${command.branch}' into itself`, 
+            'MERGE_SAME_BRANCH', 
+            'Checkout a different branch before merging');
+        }
+        break;
+      case 'cherry-pick':
+        if (!command.id) {
+          this.addError(token, 
+            'cherry-pick requires the id of the commit to pick', 
+            'MISSING_COMMIT_ID', 
+            'Add id: "commitId" to the cherry-pick command');
+        } else if (!commitIds.has(command.id)) {
+          this.addError(token, 
+            `Cannot cherry-pick unknown commit id '${command.id}'`, 
+            'UNKNOWN_COMMIT_ID', 
+            'Reference the id of an earlier commit');
+        }
+        return;
+    }
+
+    if ((command.command === 'commit' || command.command === 'merge') && command.id) {
+      if (commitIds.has(command.id)) {
+        this.addError(token, 
+          `Duplicate commit id '${command.id}'`, 
+          'DUPLICATE_COMMIT_ID', 
+          'Give each commit a unique id');
+      }
+      commitIds.add(command.id);
+    }
+  }
+
+  private parseMindmap(): MindmapNode {
     const startToken = this.currentToken();
     this.advance(); // Skip mindmap
 
-    // For now, just parse until end - full mindmap parsing is complex
+    let root: MindmapItem | undefined;
+    let rootIndent = 0;
+    let lastItem: MindmapItem | undefined;
+    const stack: { item: MindmapItem; indent: number }[] = [];
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not mindmap nodes
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const first = lineTokens[0];
+      const text = this.lineText(lineTokens);
+      const indent = first.indent ?? 0;
+
+      // Decorations apply to the node on the previous line
+      const iconMatch = /^::icon\((.*)\)$/.exec(text);
+      if (iconMatch) {
+        if (lastItem) {
+          lastItem.icon = iconMatch[1].trim();
+        }
+        continue;
+      }
+      if (text.startsWith(':::')) {
+        if (lastItem) {
+          lastItem.classes.push(...text.slice(3).trim().split(/\s+/));
+        }
+        continue;
+      }
+
+      const item = this.parseMindmapItem(text, first);
+
+      if (!root) {
+        root = item;
+        rootIndent = indent;
+        stack.push({ item, indent });
+        lastItem = item;
+        continue;
+      }
+
+      if (indent <= rootIndent) {
+        this.addError(first, 
+          `Mindmap can only have one root, but '${item.label}' is not indented under '${root.label}'`, 
+          'MULTIPLE_MINDMAP_ROOTS', 
+          `Indent '${item.label}' so it becomes a child of the root node`);
+        continue;
+      }
+
+      // Climb back to the parent; a dedent must return to an indentation level already in use
+      let lastPopped: { item: MindmapItem; indent: number } | undefined;
+      while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
+        lastPopped = stack.pop();
+      }
+      if (lastPopped && lastPopped.indent !== indent) {
+        this.addError(first, 
+          `Inconsistent indentation for '${item.label}' (${indent} does not match any enclosing level)`, 
+          'INCONSISTENT_MINDMAP_INDENT', 
+          'Indent sibling nodes by the same amount');
+      }
+
+      stack[stack.length - 1].item.children.push(item);
+      stack.push({ item, indent });
+      // Each ancestor's range grows to cover its new descendant
+      for (const { item: ancestor } of stack) {
+        this.closeRange(ancestor);
+      }
+      lastItem = item;
     }
 
     return {
       type: 'mindmap',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
+      root
     };
   }
 
-  private parseTimeline(): ASTNode {
+  private parseMindmapItem(text: string, token: Token): MindmapItem {
+    // Shapes: id[square], id(rounded), id((circle)), id))bang((, id)cloud(, id{{hexagon}}
+    const shapes: [MindmapItem['shape'], RegExp][] = [
+      ['circle', /^([^()[\]{}]*?)\(\((.*)\)\)$/],
+      ['bang', /^([^()[\]{}]*?)\)\)(.*)\(\($/],
+      ['hexagon', /^([^()[\]{}]*?)\{\{(.*)\}\}$/],
+      ['square', /^([^()[\]{}]*?)\[(.*)\]$/],
+      ['rounded', /^([^()[\]{}]*?)\((.*)\)$/],
+      ['cloud', /^([^()[\]{}]*?)\)(.*)\($/]
+    ];
+
+    let shape: MindmapItem['shape'] = 'default';
+    let id = text;
+    let label = text;
+    for (const [shapeName, pattern] of shapes) {
+      const match = pattern.exec(text);
+      if (match) {
+        shape = shapeName;
+        label = match[2].trim().replace(/^"(.*)"$/, '$1');
+        id = match[1].trim() || label;
+        break;
+      }
+    }
+
+    return {
+      type: 'mindmapItem',
+      line: token.line,
+      column: token.column,
+      range: this.rangeFrom(token),
+      id,
+      label,
+      shape,
+      classes: [],
+      children: []
+    };
+  }
+
+  private parseTimeline(): TimelineNode {
     const startToken = this.currentToken();
     this.advance(); // Skip timeline
 
-    // For now, just parse until end - full timeline parsing is complex
+    let title: string | undefined;
+    const sections: TimelineSection[] = [];
+    let currentSection: TimelineSection | undefined;
+    let currentPeriod: TimelinePeriod | undefined;
+
+    // A period must have at least one event by the time the next period starts
+    const closePeriod = (): void => {
+      if (currentPeriod && currentPeriod.events.length === 0) {
+        this.addError(
+          this.tokenAtOffset(currentPeriod.range.start.offset, currentPeriod.label),
+          `Time period '${currentPeriod.label}' has no events`,
+          'TIMELINE_PERIOD_WITHOUT_EVENTS',
+          `Add events after a colon, e.g. ${currentPeriod.label} : Event`
+        );
+      }
+      currentPeriod = undefined;
+    };
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not timeline content
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const first = lineTokens[0];
+      const text = this.lineText(lineTokens);
+
+      if (first.value === 'title') {
+        title = this.lineText(lineTokens.slice(1));
+        continue;
+      }
+
+      if (first.value === 'accTitle' || first.value === 'accDescr') {
+        continue;
+      }
+
+      if (first.value === 'section') {
+        closePeriod();
+        currentSection = {
+          type: 'section',
+          line: first.line,
+          column: first.column,
+          range: this.rangeFrom(first),
+          name: this.lineText(lineTokens.slice(1)),
+          periods: []
+        };
+        sections.push(currentSection);
+        continue;
+      }
+
+      const [periodPart, ...eventParts] = this.splitWithOffsets(text, first.position, ':');
+
+      if (periodPart.value.length > 0) {
+        closePeriod();
+        currentPeriod = {
+          type: 'period',
+          line: first.line,
+          column: first.column,
+          range: this.rangeFrom(first),
+          label: periodPart.value,
+          events: []
+        };
+        if (!currentSection) {
+          // Periods before the first section belong to an implicit unnamed section
+          currentSection = { type: 'section', line: first.line, column: first.column, range: this.rangeFrom(first), name: '', periods: [] };
+          sections.push(currentSection);
+        }
+        currentSection.periods.push(currentPeriod);
+      } else if (!currentPeriod) {
+        this.addError(first, 
+          'Timeline event appears before any time period', 
+          'TIMELINE_EVENT_WITHOUT_PERIOD', 
+          'Start the line with a time period, e.g. 2024 : Event');
+        continue;
+      }
+
+      for (const event of eventParts) {
+        if (event.value.length === 0) {
+          this.addError(this.tokenAtOffset(event.offset, ':'), 
+            `Empty event after ':' in time period '${currentPeriod.label}'`, 
+            'STRAY_TIMELINE_COLON', 
+            'Remove the extra colon or add event text after it');
+        } else {
+          currentPeriod.events.push(event.value);
+        }
+      }
+      // Continuation lines add events to the open period
+      this.closeRange(currentPeriod!);
+      this.closeRange(currentSection!);
     }
 
+    closePeriod();
+
     return {
       type: 'timeline',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
+      sections
     };
   }
 
-  private parseGantt(): ASTNode {
+  private parseGantt(): GanttNode {
     const startToken = this.currentToken();
     this.advance(); // Skip gantt
 
-    // For now, just parse until end - full gantt parsing is complex
+    let title: string | undefined;
+    let dateFormat = 'YYYY-MM-DD';
+    let axisFormat: string | undefined;
+    let todayMarker: string | undefined;
+    const excludes: string[] = [];
+    const sections: GanttSection[] = [];
+    const tasks: GanttTask[] = [];
+    // Tokens for each task's after/until ids, so dependency errors point at the reference
+    const references = new Map<GanttTask, Token[]>();
+    let currentSection: GanttSection | undefined;
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
-      this.advance();
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not part of the schedule
+        this.advance();
+        continue;
+      }
+
+      const lineTokens = this.collectLineTokens();
+      const keyword = lineTokens[0].value;
+      const rest = this.lineText(lineTokens.slice(1));
+
+      if (keyword === 'title') {
+        title = rest;
+      } else if (keyword === 'dateFormat') {
+        dateFormat = rest;
+      } else if (keyword === 'axisFormat') {
+        axisFormat = rest;
+      } else if (keyword === 'todayMarker') {
+        todayMarker = rest;
+      } else if (keyword === 'excludes') {
+        excludes.push(...rest.split(',').map(value => value.trim()).filter(value => value.length > 0));
+      } else if (keyword === 'section') {
+        currentSection = {
+          type: 'section',
+          line: lineTokens[0].line,
+          column: lineTokens[0].column,
+          range: this.rangeFrom(lineTokens[0]),
+          name: rest,
+          tasks: []
+        };
+        sections.push(currentSection);
+      } else if (['includes', 'tickInterval', 'weekday', 'weekend', 'inclusiveEndDates', 'topAxis', 
+                  'displayMode', 'click', 'accTitle', 'accDescr'].includes(keyword)) {
+        // Rendering options and interactions do not affect task validation
+      } else {
+        const task = this.parseGanttTask(lineTokens, dateFormat, references);
+        if (task) {
+          if (!currentSection) {
+            // Tasks before the first section belong to an implicit unnamed section
+            currentSection = {
+              type: 'section',
+              line: task.line,
+              column: task.column,
+              range: task.range,
+              name: '',
+              tasks: []
+            };
+            sections.push(currentSection);
+          }
+          currentSection.tasks.push(task);
+          this.closeRange(currentSection);
+          tasks.push(task);
+        }
+      }
     }
 
+    this.validateGanttDependencies(tasks, references);
+
     return {
       type: 'gantt',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: title ?? this.frontmatterTitle,
+      dateFormat,
+      axisFormat,
+      excludes,
+      todayMarker,
+      sections
     };
   }
 
-  private parseERDiagram(): ASTNode {
+  private parseGanttTask(lineTokens: Token[], dateFormat: string, references: Map<GanttTask, Token[]>): GanttTask | null {
+    // Tasks take the form: Task name : [statuses,] [id,] [start,] end
+    const first = lineTokens[0];
+    const text = this.lineText(lineTokens);
+    const colonIndex = text.indexOf(':');
+    if (colonIndex === -1) {
+      this.addError(first, 
+        `Task "${text}" is missing task data`, 
+        'INVALID_GANTT_TASK', 
+        'Add task data after a colon, e.g. "Task name :t1, 2024-01-01, 3d"');
+      return null;
+    }
+
+    const name = text.slice(0, colonIndex).trim();
+    const items = this.splitWithOffsets(text.slice(colonIndex + 1), first.position + colonIndex + 1, ',');
+
+    const statuses: GanttTask['statuses'] = [];
+    while (items.length > 0 && ['done', 'active', 'crit', 'milestone'].includes(items[0].value)) {
+      statuses.push(items.shift()!.value as GanttTask['statuses'][number]);
+    }
+
+    if (items.length === 0 || items.length > 3 || items.some(item => item.value.length === 0)) {
+      this.addError(first, 
+        `Task "${name}" has invalid task data`, 
+        'INVALID_GANTT_TASK', 
+        'Use ":[status,] [id,] [start,] end" where end is a date or a duration such as 3d');
+      return null;
+    }
+
+    const task: GanttTask = {
+      type: 'task',
+      line: first.line,
+      column: first.column,
+      range: this.rangeFrom(first),
+      name,
+      statuses
+    };
+
+    const endItem = items.pop()!;
+    const startItem = items.pop();
+    const idItem = items.pop();
+
+    if (idItem) {
+      task.id = idItem.value;
+    }
+
+    const referenceTokens = (item: { value: string; offset: number }): Token[] => this.splitWithOffsets(item.value, item.offset, ' ')
+      .filter(part => part.value.length > 0)
+      .slice(1)
+      .map(part => this.tokenAtOffset(part.offset, part.value));
+
+    if (startItem) {
+      if (/^after\s/.test(startItem.value)) {
+        const tokens = referenceTokens(startItem);
+        task.after = tokens.map(token => token.value);
+        references.set(task, tokens);
+      } else {
+        task.start = startItem.value;
+        this.validateGanttDate(startItem, dateFormat);
+      }
+    }
+
+    if (/^\d+(\.\d+)?(ms|s|m|h|d|w|M|y)$/.test(endItem.value)) {
+      task.duration = endItem.value;
+    } else if (/^until\s/.test(endItem.value)) {
+      const tokens = referenceTokens(endItem);
+      task.until = tokens.map(token => token.value);
+      references.set(task, [...(references.get(task) || []), ...tokens]);
+    } else {
+      task.end = endItem.value;
+      this.validateGanttDate(endItem, dateFormat);
+    }
+
+    return task;
+  }
+
+  private validateGanttDate(item: { value: string; offset: number }, dateFormat: string): void {
+    const match = this.dateFormatToRegExp(dateFormat).exec(item.value);
+    if (!match) {
+      this.addError(this.tokenAtOffset(item.offset, item.value), 
+        `Date '${item.value}' does not match dateFormat ${dateFormat}`, 
+        'INVALID_GANTT_DATE', 
+        `Write the date as ${dateFormat} or use a duration such as 3d`);
+      return;
+    }
+
+    // The shape matches; numeric months and days must also exist in the calendar
+    const { year, month, day } = match.groups ?? {};
+    const monthNumber = month === undefined ? undefined : parseInt(month, 10);
+    if (monthNumber !== undefined && (monthNumber < 1 || monthNumber > 12)) {
+      this.addError(this.tokenAtOffset(item.offset, item.value), 
+        `Date '${item.value}' has month ${month}, which is not between 1 and 12`, 
+        'INVALID_GANTT_DATE', 
+        `Write a real date as ${dateFormat}`);
+      return;
+    }
+    if (day !== undefined) {
+      // Without a year, allow February 29th; without a month, allow 31 days
+      const yearNumber = year === undefined ? 2000 : parseInt(year.length === 2 ? `20${year}` : year, 10);
+      const daysInMonth = monthNumber === undefined ? 31 : new Date(Date.UTC(yearNumber, monthNumber, 0)).getUTCDate();
+      const dayNumber = parseInt(day, 10);
+      if (dayNumber < 1 || dayNumber > daysInMonth) {
+        this.addError(this.tokenAtOffset(item.offset, item.value), 
+          `Date '${item.value}' has day ${dayNumber}, which does not exist in that month`, 
+          'INVALID_GANTT_DATE', 
+          `Write a real date as ${dateFormat}`);
+      }
+    }
+  }
+
+  private dateFormatToRegExp(format: string): RegExp {
+    // Translate dayjs format tokens (as used by Mermaid's dateFormat) into a pattern; the first numeric
+    // year, month and day are captured as named groups so validateGanttDate can check their ranges
+    const formatTokens: [string, string, string?, string?][] = [
+      ['YYYY', '\\d{4}', 'year'], ['YY', '\\d{2}', 'year'],
+      ['MMMM', '[A-Za-z]+'], ['MMM', '[A-Za-z]{3}'], ['MM', '\\d{2}', 'month'], ['M', '\\d{1,2}', 'month'],
+      ['Do', '\\d{1,2}', 'day', '(st|nd|rd|th)'], ['DD', '\\d{2}', 'day'], ['D', '\\d{1,2}', 'day'],
+      ['HH', '\\d{2}'], ['H', '\\d{1,2}'], ['hh', '\\d{2}'], ['h', '\\d{1,2}'],
+      ['mm', '\\d{2}'], ['m', '\\d{1,2}'], ['ss', '\\d{2}'], ['s', '\\d{1,2}'], ['SSS', '\\d{3}'],
+      ['A', '(AM|PM)'], ['a', '(am|pm)'], ['X', '\\d+(\\.\\d+)?'], ['x', '\\d+'],
+      ['ZZ', '[+-]\\d{4}'], ['Z', '[+-]\\d{2}:\\d{2}'], ['Q', '[1-4]']
+    ];
+
+    let source = '';
+    const captured = new Set<string>();
+    let i = 0;
+    while (i < format.length) {
+      if (format[i] === '[') {
+        // Bracketed text is literal
+        const close = format.indexOf(']', i);
+        const literal = close === -1 ? format.slice(i + 1) : format.slice(i + 1, close);
+        source += literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        i = close === -1 ? format.length : close + 1;
+        continue;
+      }
+      const match = formatTokens.find(([formatToken]) => format.startsWith(formatToken, i));
+      if (match) {
+        const [formatToken, pattern, group, suffix = ''] = match;
+        if (group && !captured.has(group)) {
+          captured.add(group);
+          source += `(?<${group}>${pattern})${suffix}`;
+        } else {
+          source += pattern + suffix;
+        }
+        i += formatToken.length;
+      } else {
+        source += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        i++;
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+
+  private validateGanttDependencies(tasks: GanttTask[], references: Map<GanttTask, Token[]>): void {
+    const tasksById = new Map<string, GanttTask>();
+    for (const task of tasks) {
+      if (task.id) {
+        tasksById.set(task.id, task);
+      }
+    }
+
+    // Every after/until reference must name a task id
+    for (const task of tasks) {
+      for (const reference of references.get(task) || []) {
+        const ref = reference.value;
+        if (!tasksById.has(ref)) {
+          this.addError(
+            reference,
+            `Task "${task.name}" depends on unknown task id '${ref}'`,
+            'UNKNOWN_GANTT_DEPENDENCY',
+            'Reference the id of an existing task, e.g. "after t1"'
+          );
+        }
+      }
+    }
+
+    // Walk the "after" graph and report each cycle once
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+    const visit = (id: string): void => {
+      state.set(id, 'visiting');
+      path.push(id);
+      for (const ref of tasksById.get(id)?.after || []) {
+        if (!tasksById.has(ref)) continue;
+        if (state.get(ref) === 'visiting') {
+          const cycle = [...path.slice(path.indexOf(ref)), ref];
+          // Report at the "after" reference that closes the cycle
+          const task = tasksById.get(id)!;
+          this.addError(
+            references.get(task)?.find(reference => reference.value === ref) ?? this.tokenFor(task, ref),
+            `Circular task dependency: ${cycle.join(' -> ')}`,
+            'GANTT_DEPENDENCY_CYCLE',
+            'Remove one of the "after" references to break the cycle'
+          );
+        } else if (!state.has(ref)) {
+          visit(ref);
+        }
+      }
+      path.pop();
+      state.set(id, 'done');
+    };
+
+    for (const id of tasksById.keys()) {
+      if (!state.has(id)) {
+        visit(id);
+      }
+    }
+  }
+
+  private parseERDiagram(): ERDiagramNode {
     const startToken = this.currentToken();
     this.advance(); // Skip erDiagram
 
-    // For now, just parse until end - full ER diagram parsing is complex
+    const entities = new Map<string, EREntity>();
+    const relationships: ERRelationship[] = [];
+
+    // Entities can be introduced by a block or implicitly by a relationship
+    const entityFor = (token: Token): EREntity => {
+      const name = token.type === TokenType.STRING ? token.value.slice(1, -1) : token.value;
+      let entity = entities.get(name);
+      if (!entity) {
+        entity = { type: 'entity', line: token.line, column: token.column, range: token.range, name, attributes: [] };
+        entities.set(name, entity);
+      }
+      return entity;
+    };
+
     while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
+      const token = this.currentToken();
+
+      if (token.type === TokenType.DIRECTIVE || token.type === TokenType.COMMENT) {
+        // Skip directives and comments - they are not diagram elements
+        this.advance();
+        continue;
+      }
+
+      if (token.type === TokenType.BRACE_CLOSE) {
+        this.addError(token, 
+          'Unexpected "}" without a matching entity block', 
+          'UNMATCHED_ER_BRACE', 
+          'Remove the extra "}" or open the block with ENTITY {');
+        this.advance();
+        continue;
+      }
+
+      if (['direction', 'title', 'accTitle', 'accDescr', 'classDef', 'class', 'style'].includes(token.value) ||
+          (token.type !== TokenType.IDENTIFIER && token.type !== TokenType.STRING)) {
+        // Layout, accessibility and styling statements do not affect the entity model
+        this.collectLineTokens();
+        continue;
+      }
+
+      const entity = entityFor(token);
       this.advance();
+
+      // Optional display alias: ENTITY["Alias"]
+      if (this.currentToken().type === TokenType.BRACKET_OPEN && this.currentToken().line === token.line) {
+        this.advance(); // Skip [
+        if (this.currentToken().type === TokenType.STRING || this.currentToken().type === TokenType.IDENTIFIER) {
+          const aliasToken = this.currentToken();
+          entity.alias = aliasToken.type === TokenType.STRING ? aliasToken.value.slice(1, -1) : aliasToken.value;
+          this.advance();
+        }
+        if (this.currentToken().type === TokenType.BRACKET_CLOSE) {
+          this.advance(); // Skip ]
+        } else {
+          this.addError(this.currentToken(), 'Expected closing bracket ] after entity alias', 'PARSE_ERROR');
+        }
+      }
+
+      const next = this.currentToken();
+      if (next.type === TokenType.BRACE_OPEN) {
+        this.parseEREntityBlock(entity);
+      } else if (next.type === TokenType.ER_RELATIONSHIP && next.line === token.line) {
+        const relationship = this.parseERRelationship(token, next, entityFor);
+        if (relationship) {
+          relationships.push(relationship);
+        }
+      } else if (next.line === token.line && next.type !== TokenType.EOF && next.type !== TokenType.COMMENT) {
+        const lineTokens = this.collectLineTokens();
+        const relationship = this.parseERAliasRelationship(token, lineTokens, entityFor);
+        if (relationship) {
+          relationships.push(relationship);
+          continue;
+        }
+
+        // Something other than a valid marker or cardinality alias sits between the entities
+        const colonIndex = lineTokens.findIndex(t => t.type === TokenType.COLON);
+        const markerTokens = lineTokens.slice(0, colonIndex === -1 ? -1 : colonIndex - 1);
+        const marker = this.lineText(markerTokens.length > 0 ? markerTokens : lineTokens);
+        this.addError(next, 
+          `Invalid relationship cardinality '${marker}'`, 
+          'INVALID_ER_CARDINALITY', 
+          'Use crow\'s foot markers such as ||--o{, }|..|{ or |o--||');
+      }
     }
 
     return {
       type: 'er',
       line: startToken.line,
-      column: startToken.column
+      column: startToken.column,
+      range: this.rangeFrom(startToken),
+      title: this.frontmatterTitle,
+      entities: Array.from(entities.values()),
+      relationships
+    };
+  }
+
+  private parseERRelationship(fromToken: Token, relationshipToken: Token, entityFor: (token: Token) => EREntity): ERRelationship | null {
+    this.advance(); // Skip relationship marker
+
+    const leftCardinalities: { [marker: string]: ERCardinality } = {
+      '|o': 'zero-or-one', '||': 'exactly-one', '}o': 'zero-or-more', '}|': 'one-or-more'
+    };
+    const rightCardinalities: { [marker: string]: ERCardinality } = {
+      'o|': 'zero-or-one', '||': 'exactly-one', 'o{': 'zero-or-more', '|{': 'one-or-more'
+    };
+
+    const marker = relationshipToken.value;
+    const fromCardinality = leftCardinalities[marker.slice(0, 2)];
+    const toCardinality = rightCardinalities[marker.slice(-2)];
+    if (!fromCardinality || !toCardinality) {
+      this.addError(relationshipToken, 
+        `Invalid relationship cardinality '${marker}'`, 
+        'INVALID_ER_CARDINALITY', 
+        'Use crow\'s foot markers such as ||--o{, }|..|{ or |o--||');
+    }
+
+    const toToken = this.currentToken();
+    if (toToken.line !== relationshipToken.line || 
+        (toToken.type !== TokenType.IDENTIFIER && toToken.type !== TokenType.STRING)) {
+      this.addError(relationshipToken, 
+        'Relationship must have a target entity', 
+        'INCOMPLETE_ER_RELATIONSHIP', 
+        'Add an entity name after the relationship marker');
+      return null;
+    }
+    const to = entityFor(toToken).name;
+    this.advance();
+
+    let labelTokens: Token[] | undefined;
+    if (this.currentToken().type === TokenType.COLON && this.currentToken().line === relationshipToken.line) {
+      this.advance(); // Skip :
+      labelTokens = this.collectLineTokens();
+    } else {
+      this.collectLineTokens();
+    }
+    const label = this.parseERRelationshipLabel(labelTokens, relationshipToken);
+
+    return {
+      type: 'relationship',
+      line: fromToken.line,
+      column: fromToken.column,
+      range: this.rangeFrom(fromToken),
+      from: entityFor(fromToken).name,
+      to,
+      fromCardinality: fromCardinality || 'exactly-one',
+      toCardinality: toCardinality || 'exactly-one',
+      identifying: marker.slice(2, 4) === '--',
+      label
+    };
+  }
+
+  private parseERAliasRelationship(fromToken: Token, lineTokens: Token[], entityFor: (token: Token) => EREntity): ERRelationship | null {
+    // Word aliases for the markers, joined by "to" (identifying) or "optionally to" (non-identifying),
+    // e.g. CAR 1 to zero or more NAMED-DRIVER : allows
+    const aliases: { [alias: string]: ERCardinality } = {
+      'only one': 'exactly-one', '1': 'exactly-one',
+      'zero or one': 'zero-or-one', 'one or zero': 'zero-or-one',
+      'one or more': 'one-or-more', 'one or many': 'one-or-more', 'many(1)': 'one-or-more', '1+': 'one-or-more',
+      'zero or more': 'zero-or-more', 'zero or many': 'zero-or-more', 'many(0)': 'zero-or-more', '0+': 'zero-or-more'
+    };
+    const aliasFor = (tokens: Token[]): ERCardinality | undefined => aliases[this.lineText(tokens).replace(/\s+/g, ' ')];
+
+    const colonIndex = lineTokens.findIndex(t => t.type === TokenType.COLON);
+    const relationshipTokens = colonIndex === -1 ? lineTokens : lineTokens.slice(0, colonIndex);
+    const toIndex = relationshipTokens.findIndex(t => t.type === TokenType.IDENTIFIER && t.value === 'to');
+    if (toIndex < 1) {
+      return null;
+    }
+    const identifying = relationshipTokens[toIndex - 1].value !== 'optionally';
+    const fromCardinality = aliasFor(relationshipTokens.slice(0, identifying ? toIndex : toIndex - 1));
+    const toToken = relationshipTokens[relationshipTokens.length - 1];
+    const toCardinality = aliasFor(relationshipTokens.slice(toIndex + 1, -1));
+    if (!fromCardinality || !toCardinality || (toToken.type !== TokenType.IDENTIFIER && toToken.type !== TokenType.STRING)) {
+      return null;
+    }
+
+    return {
+      type: 'relationship',
+      line: fromToken.line,
+      column: fromToken.column,
+      range: this.rangeFrom(fromToken),
+      from: entityFor(fromToken).name,
+      to: entityFor(toToken).name,
+      fromCardinality,
+      toCardinality,
+      identifying,
+      label: this.parseERRelationshipLabel(colonIndex === -1 ? undefined : lineTokens.slice(colonIndex + 1), lineTokens[0])
+    };
+  }
+
+  private parseERRelationshipLabel(labelTokens: Token[] | undefined, relationshipToken: Token): string {
+    // labelTokens are the tokens after the colon, or undefined when there is no colon
+    if (!labelTokens) {
+      this.addError(relationshipToken, 
+        'Relationship is missing a label', 
+        'MISSING_ER_RELATIONSHIP_LABEL', 
+        'Add a label after a colon, e.g. CUSTOMER ||--o{ ORDER : places');
+      return '';
+    }
+    if (labelTokens.length === 0) {
+      this.addError(relationshipToken, 
+        'Relationship label is missing after ":"', 
+        'MISSING_ER_RELATIONSHIP_LABEL', 
+        'Add a label such as : places or : "is part of"');
+      return '';
+    }
+    if (labelTokens.length === 1 && labelTokens[0].type === TokenType.STRING) {
+      return labelTokens[0].value.slice(1, -1);
+    }
+    return this.lineText(labelTokens);
+  }
+
+  private parseEREntityBlock(entity: EREntity): void {
+    const braceToken = this.currentToken();
+    this.advance(); // Skip {
+
+    while (!this.isAtEnd() && this.currentToken().type !== TokenType.EOF) {
+      const token = this.currentToken();
+
+      if (token.type === TokenType.BRACE_CLOSE) {
+        this.advance(); // Skip }
+        return;
+      }
+
+      if (token.type === TokenType.COMMENT) {
+        this.advance();
+        continue;
+      }
+
+      // A new block or relationship means this block was never closed
+      const lineTokens = this.peekLineTokens();
+      if (lineTokens.some(t => t.type === TokenType.BRACE_OPEN || t.type === TokenType.ER_RELATIONSHIP)) {
+        break;
+      }
+
+      const closeIndex = lineTokens.findIndex(t => t.type === TokenType.BRACE_CLOSE);
+      const attributeTokens = closeIndex === -1 ? lineTokens : lineTokens.slice(0, closeIndex);
+      for (let i = 0; i < attributeTokens.length; i++) {
+        this.advance();
+      }
+
+      const attribute = this.parseERAttribute(attributeTokens);
+      if (attribute) {
+        entity.attributes.push(attribute);
+      }
+    }
+
+    this.addError(braceToken, 
+      `Entity block for '${entity.name}' is not closed`, 
+      'UNCLOSED_ER_ENTITY', 
+      'Add "}" to close the entity block');
+  }
+
+  private parseERAttribute(attributeTokens: Token[]): ERAttribute | null {
+    // Attributes take the form: type name [PK|FK|UK[, ...]] ["comment"]
+    const text = this.lineText(attributeTokens);
+    const match = /^(\S+)\s+(\S+)\s*(.*)$/.exec(text);
+    const modifiers = match ? /^((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*)?\s*(?:"([^"]*)")?$/.exec(match[3]) : null;
+
+    if (!match || !modifiers) {
+      this.addError(attributeTokens[0], 
+        `Invalid attribute definition '${text}'`, 
+        'INVALID_ER_ATTRIBUTE', 
+        'Use "type name [PK|FK|UK] [\\"comment\\"]", e.g. string name PK');
+      return null;
+    }
+
+    return {
+      type: 'attribute',
+      line: attributeTokens[0].line,
+      column: attributeTokens[0].column,
+      range: this.rangeFrom(attributeTokens[0]),
+      attributeType: match[1],
+      name: match[2],
+      keys: modifiers[1] ? modifiers[1].split(',').map(key => key.trim() as 'PK' | 'FK' | 'UK') : [],
+      comment: modifiers[2]
     };
   }
 
@@ -1518,6 +4049,7 @@ export class Parser {
             type: 'block',
             line: token.line,
             column: token.column,
+            range: this.rangeFrom(token),
             id,
             label
           });
@@ -1532,6 +4064,7 @@ export class Parser {
       type: 'block',
       line: startToken.line,
       column: startToken.column,
+      range: this.rangeFrom(startToken),
       columns,
       blocks
     };
@@ -1544,13 +4077,68 @@ export class Parser {
     // This matches Mermaid's actual behavior more closely
   }
 
-  private addError(token: Token, message: string, code: string = 'PARSE_ERROR', suggestion?: string): void {
-    this.errors.push({
+  private runLintRules(ast: ASTNode): void {
+    // Custom rules see the finished AST and report through the same rule settings and disable comments
+    for (const rule of this.options.lintRules ?? []) {
+      const context: LintContext = {
+        ast,
+        diagramType: this.getDiagramType(),
+        tokens: this.tokens,
+        source: this.input,
+        report: (at, message, suggestion) => this.report(
+          at.range ? this.tokenFor({ type: 'lint', line: at.line, column: at.column, range: at.range }, '') : this.tokenAtOffset(this.offsetAt(at.line, at.column), ''),
+          message, rule.code, rule.severity ?? 'warning', suggestion)
+      };
+      try {
+        rule.check(context);
+      } catch (error) {
+        this.addError(this.tokenAtOffset(0, ''), 
+          `Lint rule ${rule.code} failed: ${error instanceof Error ? error.message : String(error)}`, 
+          'LINT_RULE_FAILED', 
+          'Fix or remove the custom lint rule');
+      }
+    }
+  }
+
+  private collectDisableComments(): Map<number, string[]> {
+    // "%% merval-disable-next-line [RULE[, RULE...]]" silences the listed rules, or every rule, on the following line
+    const disabled = new Map<number, string[]>();
+    for (const token of this.tokens) {
+      if (token.type !== TokenType.COMMENT) continue;
+      const match = /^%%\s*merval-disable-next-line\b(.*)$/.exec(token.value.trim());
+      if (match) {
+        disabled.set(token.line + 1, match[1].split(/[\s,]+/).filter(rule => rule.length > 0));
+      }
+    }
+    return disabled;
+  }
+
+  private addWarning(token: Token, message: string, code: string, suggestion?: string, fix?: TextEdit): void {
+    // Warnings describe things Mermaid tolerates, so by default they don't affect isValid
+    this.report(token, message, code, 'warning', suggestion, fix);
+  }
+
+  private addError(token: Token, message: string, code: string = 'PARSE_ERROR', suggestion?: string, fix?: TextEdit): void {
+    this.report(token, message, code, 'error', suggestion, fix);
+  }
+
+  private report(token: Token, message: string, code: string, severity: Severity, suggestion?: string, fix?: TextEdit): void {
+    // The rules option can turn a check off or change its severity; disable comments silence it for one line
+    const setting = this.options.rules?.[code] ?? severity;
+    const disabled = this.disabledRules.get(token.line);
+    if (setting === 'off' || (disabled && (disabled.length === 0 || disabled.includes(code)))) {
+      return;
+    }
+
+    (setting === 'error' ? this.errors : this.warnings).push({
       line: token.line,
       column: token.column,
+      range: token.range,
       message,
       code,
-      suggestion
+      severity: setting,
+      suggestion,
+      ...(fix && { fix })
     });
   }
 }
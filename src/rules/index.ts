@@ -0,0 +1,188 @@
+import {
+  ASTNode,
+  LintRule,
+  FlowchartNode,
+  FlowchartElement,
+  FlowchartShape,
+  SequenceNode,
+  ClassDiagramNode,
+  StateDiagramNode,
+  StateDefinition,
+  ERDiagramNode
+} from '../ast/index.js';
+
+/**
+ * Limit the number of distinct nodes in a diagram
+ * @param limit - Maximum number of flowchart nodes, participants, classes, states or entities
+ * @returns A lint rule reporting MAX_NODES
+ */
+export function maxNodes(limit: number): LintRule {
+  return {
+    code: 'MAX_NODES',
+    check(context) {
+      const nodes = collectNodes(context.ast);
+      if (nodes.size > limit) {
+        const [first] = nodes.values();
+        context.report(first,
+          `Diagram has ${nodes.size} nodes, more than the allowed ${limit}`,
+          'Split the diagram into smaller diagrams');
+      }
+    }
+  };
+}
+
+/**
+ * Require a diagram title, from the diagram's own title statement, a frontmatter title: or accTitle.
+ * Diagram types without a title statement, such as class and state diagrams, pass with accTitle
+ * @returns A lint rule reporting MISSING_TITLE
+ */
+export function requireTitle(): LintRule {
+  return {
+    code: 'MISSING_TITLE',
+    check(context) {
+      const title = (context.ast as ASTNode & { title?: string }).title;
+      const hasAccTitle = context.tokens.some(token => token.value === 'accTitle');
+      if (!title && !hasAccTitle) {
+        context.report(context.ast,
+          'Diagram has no title',
+          'Add a title statement, or accTitle: for diagrams without one');
+      }
+    }
+  };
+}
+
+/**
+ * Require node ids to match a naming pattern
+ * @param pattern - Regular expression every node id must match
+ * @returns A lint rule reporting NODE_ID_PATTERN
+ */
+export function nodeIdPattern(pattern: RegExp): LintRule {
+  return {
+    code: 'NODE_ID_PATTERN',
+    check(context) {
+      for (const [id, at] of collectNodes(context.ast)) {
+        if (!pattern.test(id)) {
+          context.report(at,
+            `Node id '${id}' does not match ${pattern}`,
+            'Rename the node to follow the naming convention');
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Disallow specific flowchart node shapes
+ * @param shapes - Shapes that must not be used
+ * @returns A lint rule reporting BANNED_SHAPE
+ */
+export function bannedShapes(shapes: FlowchartShape[]): LintRule {
+  return {
+    code: 'BANNED_SHAPE',
+    check(context) {
+      if (context.ast.type !== 'flowchart') return;
+      walkFlowchart((context.ast as FlowchartNode).nodes, element => {
+        if (element.type === 'node' && element.shape && shapes.includes(element.shape)) {
+          context.report(element,
+            `Node '${element.id}' uses the banned shape '${element.shape}'`,
+            `Use a shape other than ${shapes.join(', ')}`);
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Limit how deeply flowchart subgraphs may be nested
+ * @param limit - Maximum nesting depth, where a top-level subgraph has depth 1
+ * @returns A lint rule reporting MAX_SUBGRAPH_DEPTH
+ */
+export function maxSubgraphDepth(limit: number): LintRule {
+  return {
+    code: 'MAX_SUBGRAPH_DEPTH',
+    check(context) {
+      if (context.ast.type !== 'flowchart') return;
+      const visit = (elements: FlowchartElement[], depth: number) => {
+        for (const element of elements) {
+          if (element.type !== 'subgraph') continue;
+          if (depth + 1 > limit) {
+            context.report(element,
+              `Subgraph '${element.id}' is nested ${depth + 1} levels deep, more than the allowed ${limit}`,
+              'Flatten the subgraph structure');
+          } else {
+            visit(element.children ?? [], depth + 1);
+          }
+        }
+      };
+      visit((context.ast as FlowchartNode).nodes, 0);
+    }
+  };
+}
+
+function walkFlowchart(elements: FlowchartElement[], visit: (element: FlowchartElement) => void): void {
+  for (const element of elements) {
+    visit(element);
+    if (element.children) walkFlowchart(element.children, visit);
+  }
+}
+
+/**
+ * Collects the distinct nodes of a diagram: flowchart nodes, participants, classes, states or entities
+ * @param ast - The diagram's AST
+ * @returns Node ids mapped to where each first appears; edges can introduce nodes implicitly
+ */
+export function collectNodes(ast: ASTNode): Map<string, ASTNode> {
+  const nodes = new Map<string, ASTNode>();
+  const add = (id: string | undefined, at: ASTNode) => {
+    if (id && !nodes.has(id)) nodes.set(id, at);
+  };
+
+  switch (ast.type) {
+    case 'flowchart':
+      walkFlowchart((ast as FlowchartNode).nodes, element => {
+        if (element.type === 'subgraph') return;
+        add(element.id, element);
+        add(element.from, element);
+        add(element.to, element);
+      });
+      break;
+    case 'sequence': {
+      const sequence = ast as SequenceNode;
+      sequence.participants.forEach(participant => add(participant.name, participant));
+      sequence.messages.forEach(message => {
+        add(message.from, message);
+        add(message.to, message);
+      });
+      break;
+    }
+    case 'class': {
+      const classDiagram = ast as ClassDiagramNode;
+      classDiagram.classes.forEach(definition => add(definition.name, definition));
+      classDiagram.relations.forEach(relation => {
+        add(relation.from, relation);
+        add(relation.to, relation);
+      });
+      break;
+    }
+    case 'state': {
+      const visit = (states: StateDefinition[]) => {
+        for (const state of states) {
+          add(state.id, state);
+          state.regions?.forEach(region => visit(region.states));
+        }
+      };
+      visit((ast as StateDiagramNode).states);
+      break;
+    }
+    case 'er': {
+      const er = ast as ERDiagramNode;
+      er.entities.forEach(entity => add(entity.name, entity));
+      er.relationships.forEach(relationship => {
+        add(relationship.from, relationship);
+        add(relationship.to, relationship);
+      });
+      break;
+    }
+  }
+  return nodes;
+}
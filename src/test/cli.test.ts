@@ -0,0 +1,171 @@
+/**
+ * Tests for the merval command line
+ * Each case runs the CLI against files written to a temporary directory and checks the exit code and output
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { runCli } from '../cli/index.js';
+
+interface CliTestCase {
+  name: string;
+  args: string[];
+  files?: { [path: string]: string };
+  stdin?: string;
+  expectedExitCode: number;
+  // Substrings expected in stdout, or in stderr for usage errors
+  expectedOutput: string[];
+}
+
+const files = {
+  'valid.mmd': 'flowchart TD\n  A --> B\n',
+  'warning.mmd': 'flowchart TD\n  A --> B %% note\n',
+  'docs/guide.md': '# Guide\n\n```mermaid\nflowchart TD\n  A -->\n```\n',
+  'docs/deep/other.mmd': 'sequenceDiagram\n  Alice->>Bob: Hi\n',
+  'node_modules/ignored.mmd': 'flowchart TD\n  A -->\n'
+};
+
+export const cliTests: { name: string; description: string; testCases: CliTestCase[] } = {
+  name: 'CLI Tests',
+  description: 'Tests for merval file discovery, formats and exit codes',
+  testCases: [
+    {
+      name: 'Valid file exits 0',
+      args: ['valid.mmd'],
+      files,
+      expectedExitCode: 0,
+      expectedOutput: ['1 file checked, no problems found']
+    },
+    {
+      name: 'Markdown errors are reported at document positions',
+      args: ['docs/guide.md'],
+      files,
+      expectedExitCode: 1,
+      expectedOutput: ['docs/guide.md', '5:5  error', 'INCOMPLETE_ARROW']
+    },
+    {
+      name: 'Directories are searched, skipping node_modules',
+      args: ['.', '--format', 'json'],
+      files,
+      expectedExitCode: 1,
+      expectedOutput: ['"path": "docs/deep/other.mmd"', '"path": "warning.mmd"']
+    },
+    {
+      name: 'Glob patterns are expanded',
+      args: ['docs/**/*.mmd', '--format=json'],
+      files,
+      expectedExitCode: 0,
+      expectedOutput: ['"path": "docs/deep/other.mmd"']
+    },
+    {
+      name: 'Braces expand to alternatives',
+      args: ['{valid,warning}.mmd', '--format=json'],
+      files,
+      expectedExitCode: 0,
+      expectedOutput: ['"path": "valid.mmd"', '"path": "warning.mmd"']
+    },
+    {
+      name: 'Commas outside braces are literal',
+      args: ['**/a,b.mmd'],
+      files: { ...files, 'notes/a,b.mmd': 'flowchart TD\n  A --> B\n', 'notes/ab.mmd': 'flowchart TD\n  A -->\n' },
+      expectedExitCode: 0,
+      expectedOutput: ['1 file checked, no problems found']
+    },
+    {
+      name: 'Warnings pass unless --max-warnings is exceeded',
+      args: ['warning.mmd', '--max-warnings', '0'],
+      files,
+      expectedExitCode: 1,
+      expectedOutput: ['INLINE_COMMENT_NOT_SUPPORTED', '1 problem (0 errors, 1 warning)']
+    },
+    {
+      name: '--quiet drops warnings',
+      args: ['warning.mmd', '--quiet'],
+      files,
+      expectedExitCode: 0,
+      expectedOutput: ['no problems found']
+    },
+    {
+      name: '--quiet still counts warnings for --max-warnings',
+      args: ['warning.mmd', '--quiet', '--max-warnings', '0'],
+      files,
+      expectedExitCode: 1,
+      expectedOutput: ['1 warning exceeds the maximum of 0']
+    },
+    {
+      name: 'stdin is read when no files are given',
+      args: ['--format', 'junit'],
+      stdin: 'flowchart TD\n  A -->\n',
+      expectedExitCode: 1,
+      expectedOutput: ['<testcase classname="merval" name="&lt;stdin&gt;">', 'type="INCOMPLETE_ARROW"']
+    },
+    {
+      name: 'SARIF output',
+      args: ['docs/guide.md', '-f', 'sarif'],
+      files,
+      expectedExitCode: 1,
+      expectedOutput: ['"version": "2.1.0"', '"ruleId": "INCOMPLETE_ARROW"', '"uri": "docs/guide.md"']
+    },
+    {
+      name: 'Missing file is a usage error',
+      args: ['missing.mmd'],
+      files,
+      expectedExitCode: 2,
+      expectedOutput: ["no such file or directory 'missing.mmd'"]
+    },
+    {
+      name: 'Unknown format is a usage error',
+      args: ['valid.mmd', '--format', 'xml'],
+      files,
+      expectedExitCode: 2,
+      expectedOutput: ["unknown format 'xml'"]
+    }
+  ]
+};
+
+// Run the tests
+export function runCliTests(): void {
+  console.log(`\n🧪 Running ${cliTests.name}`);
+  console.log(`📝 ${cliTests.description}`);
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of cliTests.testCases) {
+    const cwd = mkdtempSync(join(tmpdir(), 'merval-cli-'));
+    try {
+      for (const [path, content] of Object.entries(testCase.files ?? {})) {
+        mkdirSync(dirname(join(cwd, path)), { recursive: true });
+        writeFileSync(join(cwd, path), content);
+      }
+
+      let output = '';
+      const exitCode = runCli(testCase.args, {
+        stdout: text => { output += text; },
+        stderr: text => { output += text; },
+        readStdin: () => testCase.stdin,
+        cwd
+      });
+
+      if (exitCode !== testCase.expectedExitCode) {
+        throw new Error(`Expected exit code ${testCase.expectedExitCode}, but got ${exitCode}:\n${output}`);
+      }
+      for (const expected of testCase.expectedOutput) {
+        if (!output.includes(expected)) {
+          throw new Error(`Expected output to contain ${JSON.stringify(expected)}, but got:\n${output}`);
+        }
+      }
+
+      console.log(`✅ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${testCase.name}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  }
+
+  console.log(`\n📊 CLI Tests Results: ${passed} passed, ${failed} failed`);
+}
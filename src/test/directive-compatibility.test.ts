@@ -382,12 +382,13 @@ export function runDirectiveCompatibilityTests(): void {
   
   for (const testCase of directiveCompatibilityTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode
         });
       } else {
         assertValidationResult(result, {
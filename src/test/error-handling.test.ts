@@ -408,14 +408,14 @@ export const errorHandlingTests = createTestSuite(
     ),
 
     createTestCase(
-      'Inline comment (not supported by Mermaid CLI)',
+      'Inline comment (warning - not supported by Mermaid CLI)',
       `flowchart TD
 A[A] %% This is an inline comment
 B[B]`,
-      false,
+      true,
       { 
         expectedDiagramType: 'flowchart',
-        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
+        hasWarningWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
       }
     ),
 
@@ -435,10 +435,10 @@ B[B]`,
 A[A] %% First inline comment
 B[B] %% Second inline comment
 C[C]`,
-      false,
+      true,
       { 
         expectedDiagramType: 'flowchart',
-        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
+        hasWarningWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
       }
     ),
 
@@ -448,10 +448,10 @@ C[C]`,
 A[A]
 %% Standalone comment
 B[B] %% Inline comment`,
-      false,
+      true,
       { 
         expectedDiagramType: 'flowchart',
-        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
+        hasWarningWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
       }
     ),
 
@@ -461,10 +461,10 @@ B[B] %% Inline comment`,
 subgraph "Test"
 A[A] %% Inline comment in subgraph
 end`,
-      false,
+      true,
       { 
         expectedDiagramType: 'flowchart',
-        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
+        hasWarningWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
       }
     ),
 
@@ -490,7 +490,69 @@ D --> E`,
       false,
       { 
         expectedDiagramType: 'flowchart',
-        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED'
+        hasErrorWithCode: 'MISSING_SUBGRAPH_END'
+      }
+    ),
+
+    // Rule configuration
+    createTestCase(
+      'Rule turned off in options',
+      `flowchart TD
+title My chart
+A --> B`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        validationOptions: { rules: { UNSUPPORTED_TITLE_DIRECTIVE: 'off' } }
+      }
+    ),
+
+    createTestCase(
+      'Error downgraded to a warning in options',
+      `flowchart TD
+A --> B
+linkStyle 3 stroke:#f00`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        hasWarningWithCode: 'INVALID_LINKSTYLE_INDEX',
+        validationOptions: { rules: { INVALID_LINKSTYLE_INDEX: 'warning' } }
+      }
+    ),
+
+    createTestCase(
+      'Warning promoted to an error in options',
+      `flowchart TD
+A[A] %% Inline comment
+B[B]`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'INLINE_COMMENT_NOT_SUPPORTED',
+        validationOptions: { rules: { INLINE_COMMENT_NOT_SUPPORTED: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Disable comment for a single rule on the next line',
+      `flowchart TD
+A --> B
+%% merval-disable-next-line INVALID_LINKSTYLE_INDEX
+linkStyle 3 stroke:#f00`,
+      true,
+      { expectedDiagramType: 'flowchart' }
+    ),
+
+    createTestCase(
+      'Disable comment only covers the next line',
+      `flowchart TD
+%% merval-disable-next-line MISSING_ARROW
+A B
+C D`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_ARROW'
       }
     )
   ]
@@ -506,12 +568,13 @@ export function runErrorHandlingTests(): void {
   
   for (const testCase of errorHandlingTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode
         });
       } else {
         assertValidationResult(result, {
@@ -0,0 +1,110 @@
+/**
+ * Tests for automatic repair of Mermaid code
+ * Each case checks the repaired source, the codes of the applied edits and that the result validates
+ */
+
+import { fixMermaid } from '../index.js';
+
+interface FixTestCase {
+  name: string;
+  input: string;
+  expectedOutput: string;
+  expectedCodes: string[];
+}
+
+export const fixerTests: { name: string; description: string; testCases: FixTestCase[] } = {
+  name: 'Fixer Tests',
+  description: 'Tests for fixMermaid edits applied from validation findings',
+  testCases: [
+    {
+      name: 'Inline comment moved above its line',
+      input: `flowchart TD
+    A --> B %% happy path
+    B --> C`,
+      expectedOutput: `flowchart TD
+    %% happy path
+    A --> B
+    B --> C`,
+      expectedCodes: ['INLINE_COMMENT_NOT_SUPPORTED']
+    },
+    {
+      name: 'Nested unclosed subgraphs closed at the end',
+      input: `flowchart TD
+  subgraph outer
+    A --> B
+    subgraph inner
+      C --> D`,
+      expectedOutput: `flowchart TD
+  subgraph outer
+    A --> B
+    subgraph inner
+      C --> D
+    end
+  end
+`,
+      expectedCodes: ['MISSING_SUBGRAPH_END', 'MISSING_SUBGRAPH_END']
+    },
+    {
+      name: 'classDef equals syntax converted to colons',
+      input: `flowchart LR
+    A:::warm --> B
+    classDef warm fill=pink,stroke=#333`,
+      expectedOutput: `flowchart LR
+    A:::warm --> B
+    classDef warm fill:pink,stroke:#333`,
+      expectedCodes: ['UNSUPPORTED_CLASSDEF_EQUALS_SYNTAX']
+    },
+    {
+      name: 'xychart axis labels with special characters quoted',
+      input: `xychart-beta
+  x-axis [jan, feb&mar, apr]
+  bar [1, 2, 3]`,
+      expectedOutput: `xychart-beta
+  x-axis [jan, "feb&mar", apr]
+  bar [1, 2, 3]`,
+      expectedCodes: ['INVALID_IDENTIFIER']
+    },
+    {
+      name: 'Valid code is left untouched',
+      input: `flowchart TD
+    A --> B`,
+      expectedOutput: `flowchart TD
+    A --> B`,
+      expectedCodes: []
+    }
+  ]
+};
+
+// Run the tests
+export function runFixerTests(): void {
+  console.log(`\n🧪 Running ${fixerTests.name}`);
+  console.log(`📝 ${fixerTests.description}`);
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of fixerTests.testCases) {
+    try {
+      const { output, edits, result } = fixMermaid(testCase.input);
+
+      if (output !== testCase.expectedOutput) {
+        throw new Error(`Expected output ${JSON.stringify(testCase.expectedOutput)}, but got ${JSON.stringify(output)}`);
+      }
+      const codes = edits.map(edit => edit.code);
+      if (JSON.stringify(codes) !== JSON.stringify(testCase.expectedCodes)) {
+        throw new Error(`Expected edits ${JSON.stringify(testCase.expectedCodes)}, but got ${JSON.stringify(codes)}`);
+      }
+      if (!result.isValid) {
+        throw new Error(`Expected repaired code to be valid, but found errors: ${JSON.stringify(result.errors.map(e => e.code))}`);
+      }
+
+      console.log(`✅ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${testCase.name}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 Fixer Tests Results: ${passed} passed, ${failed} failed`);
+}
@@ -109,6 +109,82 @@ export const flowchartTests = createTestSuite(
       { expectedDiagramType: 'flowchart' }
     ),
 
+    createTestCase(
+      'Extended node shapes',
+      `flowchart TD
+        A([Stadium]) --> B[[Subroutine]]
+        C[(Database)] --> D>Asymmetric]
+        E{{Hexagon}} --> F[/Lean right/]
+        G[\\Lean left\\] --> H[/Trapezoid\\]
+        I[\\Inverted trapezoid/] --> J(((Double circle)))`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A', label: 'Stadium', shape: 'stadium' },
+            { id: 'B', label: 'Subroutine', shape: 'subroutine' },
+            { from: 'A', to: 'B' },
+            { id: 'C', label: 'Database', shape: 'cylinder' },
+            { id: 'D', label: 'Asymmetric', shape: 'asymmetric' },
+            { from: 'C', to: 'D' },
+            { id: 'E', label: 'Hexagon', shape: 'hexagon' },
+            { id: 'F', label: 'Lean right', shape: 'lean-right' },
+            { from: 'E', to: 'F' },
+            { id: 'G', label: 'Lean left', shape: 'lean-left' },
+            { id: 'H', label: 'Trapezoid', shape: 'trapezoid' },
+            { from: 'G', to: 'H' },
+            { id: 'I', label: 'Inverted trapezoid', shape: 'inv-trapezoid' },
+            { id: 'J', label: 'Double circle', shape: 'double-circle' },
+            { from: 'I', to: 'J' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Shape data syntax',
+      `flowchart TD
+        A@{ shape: cyl, label: "Orders DB" } --> B@{ shape: doc }
+        C@{ shape: lean-r, label: "Input" }
+        D@{ icon: "fa:user", label: "User" }`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A', label: 'Orders DB', shape: 'cylinder' },
+            { id: 'B', shape: 'doc' },
+            { from: 'A', to: 'B' },
+            { id: 'C', label: 'Input', shape: 'lean-right' },
+            { id: 'D', label: 'User', shape: 'icon' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Unknown shape name in shape data',
+      `flowchart TD
+        A@{ shape: blob, label: "Start" }`,
+      false,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'UNKNOWN_NODE_SHAPE'
+      }
+    ),
+
+    createTestCase(
+      'Stadium node closed with the wrong delimiter',
+      `flowchart TD
+        A([Start) --> B`,
+      false,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISMATCHED_NODE_SHAPE'
+      }
+    ),
+
     // Arrow labels
     createTestCase(
       'Arrows with labels',
@@ -137,6 +213,176 @@ export const flowchartTests = createTestSuite(
       { expectedDiagramType: 'flowchart' }
     ),
 
+    // Link types
+    createTestCase(
+      'Open, dotted, thick and invisible links',
+      `flowchart LR
+        A --- B
+        B -.- C
+        C === D
+        D ~~~ E
+        E -.-> F
+        F ==> G`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { from: 'A', to: 'B', style: 'normal', head: 'open', length: 1, bidirectional: false },
+            { id: 'B' },
+            { id: 'C' },
+            { from: 'B', to: 'C', style: 'dotted', head: 'open', length: 1, bidirectional: false },
+            { id: 'C' },
+            { id: 'D' },
+            { from: 'C', to: 'D', style: 'thick', head: 'open', length: 1, bidirectional: false },
+            { id: 'D' },
+            { id: 'E' },
+            { from: 'D', to: 'E', style: 'invisible', head: 'open', length: 1, bidirectional: false },
+            { id: 'E' },
+            { id: 'F' },
+            { from: 'E', to: 'F', style: 'dotted', head: 'arrow', length: 1, bidirectional: false },
+            { id: 'F' },
+            { id: 'G' },
+            { from: 'F', to: 'G', style: 'thick', head: 'arrow', length: 1, bidirectional: false }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Bidirectional and circle/cross links',
+      `flowchart LR
+        A <--> B
+        B o--o C
+        C x--x D
+        D --o E
+        E --x F`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { from: 'A', to: 'B', style: 'normal', head: 'arrow', length: 1, bidirectional: true },
+            { id: 'B' },
+            { id: 'C' },
+            { from: 'B', to: 'C', style: 'normal', head: 'circle', length: 1, bidirectional: true },
+            { id: 'C' },
+            { id: 'D' },
+            { from: 'C', to: 'D', style: 'normal', head: 'cross', length: 1, bidirectional: true },
+            { id: 'D' },
+            { id: 'E' },
+            { from: 'D', to: 'E', style: 'normal', head: 'circle', length: 1, bidirectional: false },
+            { id: 'E' },
+            { id: 'F' },
+            { from: 'E', to: 'F', style: 'normal', head: 'cross', length: 1, bidirectional: false }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Bidirectional links without spaces around the nodes',
+      `flowchart LR
+        A<-->B
+        B<==>C
+        C<-- text -->D
+        D<-.->E`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { from: 'A', to: 'B', style: 'normal', head: 'arrow', length: 1, bidirectional: true },
+            { id: 'B' },
+            { id: 'C' },
+            { from: 'B', to: 'C', style: 'thick', head: 'arrow', length: 1, bidirectional: true },
+            { id: 'C' },
+            { id: 'D' },
+            { from: 'C', to: 'D', label: 'text', style: 'normal', head: 'arrow', length: 1, bidirectional: true },
+            { id: 'D' },
+            { id: 'E' },
+            { from: 'D', to: 'E', style: 'dotted', head: 'arrow', length: 1, bidirectional: true }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Longer links and inline link text',
+      `flowchart TD
+        A ----> B
+        B -...-> C
+        C -- Yes --> D
+        D -. Maybe .-> E
+        E == Go ==> F
+        linkStyle 4 stroke:#ff0000`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { from: 'A', to: 'B', style: 'normal', head: 'arrow', length: 3, bidirectional: false },
+            { id: 'B' },
+            { id: 'C' },
+            { from: 'B', to: 'C', style: 'dotted', head: 'arrow', length: 3, bidirectional: false },
+            { id: 'C' },
+            { id: 'D' },
+            { from: 'C', to: 'D', label: 'Yes', style: 'normal', head: 'arrow', length: 1, bidirectional: false },
+            { id: 'D' },
+            { id: 'E' },
+            { from: 'D', to: 'E', label: 'Maybe', style: 'dotted', head: 'arrow', length: 1, bidirectional: false },
+            { id: 'E' },
+            { id: 'F' },
+            { from: 'E', to: 'F', label: 'Go', style: 'thick', head: 'arrow', length: 1, bidirectional: false }
+          ],
+          linkStyles: [{ indices: [4], properties: [{ name: 'stroke', value: '#ff0000' }] }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Link text without closing link',
+      `flowchart LR
+        A -- text B`,
+      false,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'UNTERMINATED_LINK_TEXT'
+      }
+    ),
+
+    createTestCase(
+      'Link text closed with a different stroke',
+      `flowchart LR
+        A -- text ==> B`,
+      false,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISMATCHED_LINK_TEXT'
+      }
+    ),
+
+    createTestCase(
+      'linkStyle index counts every link type',
+      `flowchart LR
+        A --- B
+        B ~~~ C
+        linkStyle 2 stroke:#ff0000`,
+      false,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'INVALID_LINKSTYLE_INDEX'
+      }
+    ),
+
     // Complex flowcharts
     createTestCase(
       'Complex flowchart with multiple paths',
@@ -333,7 +579,23 @@ export const flowchartTests = createTestSuite(
         style A fill:#f9f,stroke:#333,stroke-width:2px,stroke-dasharray: 5 5
         style B fill:#bbf,stroke:#333,stroke-width:2px,color:#fff`,
       true,
-      { expectedDiagramType: 'flowchart' }
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          styles: [
+            {
+              id: 'A',
+              properties: [
+                { name: 'fill', value: '#f9f' },
+                { name: 'stroke', value: '#333' },
+                { name: 'stroke-width', value: '2px' },
+                { name: 'stroke-dasharray', value: '5 5' }
+              ]
+            },
+            { id: 'B', properties: [{ name: 'fill', value: '#bbf' }, {}, {}, { name: 'color', value: '#fff' }] }
+          ]
+        }
+      }
     ),
 
     createTestCase(
@@ -348,6 +610,119 @@ export const flowchartTests = createTestSuite(
       { expectedDiagramType: 'flowchart' }
     ),
 
+    createTestCase(
+      'Class shorthand and class lists',
+      `flowchart LR
+        A:::hot --> B[Process]:::cold
+        class A,B hot
+        classDef hot,cold fill:#f96,color:rgb(0, 0, 0);`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [{ id: 'A', classes: ['hot'] }, { id: 'B', label: 'Process', classes: ['cold'] }, { from: 'A', to: 'B' }],
+          classDefs: [{ names: ['hot', 'cold'], properties: [{ name: 'fill', value: '#f96' }, { name: 'color', value: 'rgb(0, 0, 0)' }] }],
+          classAssignments: [{ ids: ['A', 'B'], className: 'hot' }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'linkStyle default and index lists',
+      `flowchart LR
+        A --> B --> C
+        linkStyle default stroke:#999
+        linkStyle 0,1 stroke:#f00,stroke-width:2px`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          linkStyles: [
+            { indices: 'default', properties: [{ name: 'stroke', value: '#999' }] },
+            { indices: [0, 1], properties: [{ name: 'stroke', value: '#f00' }, { name: 'stroke-width', value: '2px' }] }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'linkStyle with interpolate',
+      `flowchart LR
+        A --> B --> C
+        linkStyle default interpolate basis
+        linkStyle 0 interpolate cardinal stroke:#f00,stroke-width:2px`,
+      true,
+      { 
+        expectedDiagramType: 'flowchart',
+        validationOptions: { rules: { INVALID_STYLE_PROPERTY: 'error', INVALID_LINK_INTERPOLATION: 'error', MISSING_STYLE_PROPERTIES: 'error' } },
+        expectedAst: {
+          linkStyles: [
+            { indices: 'default', interpolate: 'basis', properties: [] },
+            { indices: [0], interpolate: 'cardinal', properties: [{ name: 'stroke', value: '#f00' }, { name: 'stroke-width', value: '2px' }] }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'linkStyle with unknown interpolation curve',
+      `flowchart LR
+        A --> B
+        linkStyle 0 interpolate wobbly stroke:#f00`,
+      true,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasWarningWithCode: 'INVALID_LINK_INTERPOLATION'
+      }
+    ),
+
+    createTestCase(
+      'Unknown class names and style targets are only warnings',
+      `flowchart LR
+        A:::missing --> B
+        style Z fill:#f9f`,
+      true,
+      { 
+        expectedDiagramType: 'flowchart',
+        hasWarningWithCode: 'UNKNOWN_STYLE_TARGET'
+      }
+    ),
+
+    createTestCase(
+      'linkStyle index list past the last link',
+      `flowchart LR
+        A --> B
+        linkStyle 0,1 stroke:#f00`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'INVALID_LINKSTYLE_INDEX'
+      }
+    ),
+
+    createTestCase(
+      'Style statement without properties',
+      `flowchart LR
+        A --> B
+        style A`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_STYLE_PROPERTIES'
+      }
+    ),
+
+    createTestCase(
+      'Class shorthand without a class name',
+      `flowchart LR
+        A::: --> B`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_CLASS_NAME'
+      }
+    ),
+
     createTestCase(
       'Flowchart with style and classDef together',
       `flowchart TD
@@ -588,6 +963,102 @@ export const flowchartTests = createTestSuite(
       }
     ),
 
+    createTestCase(
+      'Chained links',
+      `flowchart LR
+        A --> B --> C
+        A -- yes --> D[Done] -.-> E`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { from: 'A', to: 'B', style: 'normal' },
+            { id: 'C' },
+            { from: 'B', to: 'C', style: 'normal' },
+            { id: 'A' },
+            { id: 'D', label: 'Done' },
+            { from: 'A', to: 'D', label: 'yes', style: 'normal' },
+            { id: 'E' },
+            { from: 'D', to: 'E', style: 'dotted' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Ampersand node groups',
+      `flowchart TD
+        A & B --> C & D
+        C & D --> E`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        expectedAst: {
+          nodes: [
+            { id: 'A' },
+            { id: 'B' },
+            { id: 'C' },
+            { id: 'D' },
+            { from: 'A', to: 'C' },
+            { from: 'A', to: 'D' },
+            { from: 'B', to: 'C' },
+            { from: 'B', to: 'D' },
+            { id: 'C' },
+            { id: 'D' },
+            { id: 'E' },
+            { from: 'C', to: 'E' },
+            { from: 'D', to: 'E' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'linkStyle counts every edge of a node group',
+      `flowchart TD
+        A & B --> C & D --> E
+        linkStyle 5 stroke:#f00`,
+      true,
+      { expectedDiagramType: 'flowchart' }
+    ),
+
+    createTestCase(
+      'linkStyle index past the edges of a node group',
+      `flowchart TD
+        A & B --> C & D
+        linkStyle 4 stroke:#f00`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'INVALID_LINKSTYLE_INDEX'
+      }
+    ),
+
+    createTestCase(
+      'Ampersand without a following node',
+      `flowchart TD
+        A & --> B`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_NODE'
+      }
+    ),
+
+    createTestCase(
+      'Adjacent node after a chained link',
+      `flowchart TD
+        A --> B C`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_ARROW'
+      }
+    ),
+
     createTestCase(
       'Unclosed bracket in node',
       `flowchart TD
@@ -700,12 +1171,14 @@ export function runFlowchartTests(): void {
   
   for (const testCase of flowchartTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode,
+          astMatches: testCase.expectedAst
         });
       } else {
         assertValidationResult(result, {
@@ -0,0 +1,107 @@
+/**
+ * Tests for the SARIF and JUnit report formatters
+ * Each case formats validation results tagged with file paths and checks the parts of the report CI tools read
+ */
+
+import { formatSarif, formatJunit, validateMermaid, validateMarkdown, FileValidationResult } from '../index.js';
+import { CheckTestSuite, expect, runCheckSuite } from './setup.js';
+
+const invalid: FileValidationResult = {
+  path: 'diagrams/broken flow.mmd',
+  result: validateMermaid('flowchart TD\n  A --> B %% note\n  C[Start\n  D -->')
+};
+const markdown: FileValidationResult = {
+  path: 'docs/guide.md',
+  result: validateMarkdown('# Guide\n\n```mermaid\nflowchart TD\n  A -->\n```\n')
+};
+const valid: FileValidationResult = {
+  path: 'diagrams/ok.mmd',
+  result: validateMermaid('sequenceDiagram\n  Alice->>Bob: Hi')
+};
+
+export const formatterTests: CheckTestSuite = {
+  name: 'Formatter Tests',
+  description: 'Tests for SARIF 2.1.0 and JUnit XML reports',
+  testCases: [
+    {
+      name: 'SARIF log has one rule per finding code',
+      check: () => {
+        const log = JSON.parse(formatSarif([invalid, markdown, valid]));
+        const { driver } = log.runs[0].tool;
+        expect(log.version === '2.1.0', `Expected version 2.1.0, got ${log.version}`);
+        expect(JSON.stringify(driver.rules.map((rule: { id: string }) => rule.id)) === '["INLINE_COMMENT_NOT_SUPPORTED","UNCLOSED_NODE_SHAPE","INCOMPLETE_ARROW"]',
+          `Unexpected rules ${JSON.stringify(driver.rules)}`);
+        const rule = driver.rules[2];
+        expect(rule.name === 'IncompleteArrow' && rule.shortDescription.text === 'Incomplete arrow',
+          `Unexpected rule names ${JSON.stringify(rule)}`);
+        expect(rule.help.text === 'Add a node after the arrow', `Expected help from the suggestion, got ${JSON.stringify(rule.help)}`);
+        expect(rule.defaultConfiguration.level === 'error', `Expected error level, got ${rule.defaultConfiguration.level}`);
+      }
+    },
+    {
+      name: 'SARIF rule help does not depend on finding order',
+      check: () => {
+        const square = { path: 'square.mmd', result: validateMermaid('flowchart TD\n  C[Start\n  A -->') };
+        const round = { path: 'round.mmd', result: validateMermaid('flowchart TD\n  C(Start\n  A -->') };
+        const helpFor = (files: FileValidationResult[]) => Object.fromEntries(JSON.parse(formatSarif(files)).runs[0].tool.driver.rules
+          .map((rule: { id: string; help?: { text: string } }) => [rule.id, rule.help?.text]));
+        const forward = helpFor([square, round]);
+        expect(JSON.stringify(forward) === JSON.stringify(helpFor([round, square])),
+          `Expected the same help in both orders, got ${JSON.stringify(forward)} and ${JSON.stringify(helpFor([round, square]))}`);
+        expect(forward.INCOMPLETE_ARROW === 'Add a node after the arrow' && forward.UNCLOSED_NODE_SHAPE === undefined,
+          `Expected help only for the shared suggestion, got ${JSON.stringify(forward)}`);
+      }
+    },
+    {
+      name: 'SARIF results carry level, rule index and location',
+      check: () => {
+        const results = JSON.parse(formatSarif([invalid, markdown])).runs[0].results;
+        expect(results.length === 4, `Expected 4 results, got ${results.length}`);
+        const [warning, , error] = results;
+        expect(warning.level === 'warning' && warning.ruleIndex === 0, `Unexpected warning ${JSON.stringify(warning)}`);
+        expect(error.level === 'error' && error.ruleIndex === 2, `Unexpected error ${JSON.stringify(error)}`);
+        expect(error.message.text === 'Arrow must have a destination node. Add a node after the arrow',
+          `Unexpected message ${error.message.text}`);
+        const location = error.locations[0].physicalLocation;
+        expect(location.artifactLocation.uri === 'diagrams/broken%20flow.mmd', `Unexpected uri ${location.artifactLocation.uri}`);
+        expect(location.region.startLine === 4, `Expected line 4, got ${location.region.startLine}`);
+        expect(location.region.endLine === 4 && location.region.endColumn === 8, `Expected the region to end after the arrow, got ${JSON.stringify(location.region)}`);
+        const markdownLocation = results[3].locations[0].physicalLocation;
+        expect(markdownLocation.region.startLine === 5, `Expected Markdown line 5, got ${markdownLocation.region.startLine}`);
+      }
+    },
+    {
+      name: 'SARIF log for a single valid result has no results',
+      check: () => {
+        const run = JSON.parse(formatSarif(valid)).runs[0];
+        expect(run.results.length === 0 && run.tool.driver.rules.length === 0, `Expected an empty run, got ${JSON.stringify(run)}`);
+      }
+    },
+    {
+      name: 'JUnit report fails files with errors',
+      check: () => {
+        const xml = formatJunit([invalid, valid]);
+        expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'), 'Expected an XML declaration');
+        expect(xml.includes('<testsuite name="merval" tests="2" failures="1"'), `Unexpected suite counts:\n${xml}`);
+        expect(xml.includes('<testcase classname="merval" name="diagrams/ok.mmd"/>'), `Expected a passing test case:\n${xml}`);
+        expect(xml.includes('<failure message="2 errors" type="UNCLOSED_NODE_SHAPE">'), `Unexpected failure:\n${xml}`);
+        expect(xml.includes('diagrams/broken flow.mmd:4:5 error INCOMPLETE_ARROW: Arrow must have a destination node\n  Add a node after the arrow'),
+          `Expected error details with the suggestion:\n${xml}`);
+        expect(xml.includes('<system-out>diagrams/broken flow.mmd:2:11 warning INLINE_COMMENT_NOT_SUPPORTED'),
+          `Expected warnings in system-out:\n${xml}`);
+      }
+    },
+    {
+      name: 'JUnit report escapes XML',
+      check: () => {
+        const xml = formatJunit({ path: 'a&b<c>.mmd', result: validateMermaid('flowchart TD\n  A -->') });
+        expect(xml.includes('name="a&amp;b&lt;c&gt;.mmd"'), `Expected escaped path:\n${xml}`);
+      }
+    }
+  ]
+};
+
+// Run the tests
+export function runFormatterTests(): void {
+  runCheckSuite(formatterTests);
+}
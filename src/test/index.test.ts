@@ -9,6 +9,12 @@ import { runOtherDiagramTests } from './other-diagrams.test.js';
 import { runErrorHandlingTests } from './error-handling.test.js';
 import { runIntegrationTests } from './integration.test.js';
 import { runDirectiveCompatibilityTests } from './directive-compatibility.test.js';
+import { runFixerTests } from './fixer.test.js';
+import { runMarkdownTests } from './markdown.test.js';
+import { runCliTests } from './cli.test.js';
+import { runFormatterTests } from './formatters.test.js';
+import { runLspTests } from './lsp.test.js';
+import { runRangeTests } from './ranges.test.js';
 
 // Test statistics
 interface TestStats {
@@ -84,6 +90,12 @@ export function runAllTests(): void {
     runErrorHandlingTests();
     runIntegrationTests();
     runDirectiveCompatibilityTests();
+    runFixerTests();
+    runMarkdownTests();
+    runCliTests();
+    runFormatterTests();
+    runLspTests();
+    runRangeTests();
     
     const endTime = Date.now();
     const duration = endTime - startTime;
@@ -154,9 +166,27 @@ export function runTestSuite(suiteName: string): void {
     case 'directive-compatibility':
       runDirectiveCompatibilityTests();
       break;
+    case 'fixer':
+      runFixerTests();
+      break;
+    case 'markdown':
+      runMarkdownTests();
+      break;
+    case 'cli':
+      runCliTests();
+      break;
+    case 'formatters':
+      runFormatterTests();
+      break;
+    case 'lsp':
+      runLspTests();
+      break;
+    case 'ranges':
+      runRangeTests();
+      break;
     default:
       console.log(`❌ Unknown test suite: ${suiteName}`);
-      console.log('Available suites: flowchart, sequence, other-diagrams, error-handling, integration, directive-compatibility');
+      console.log('Available suites: flowchart, sequence, other-diagrams, error-handling, integration, directive-compatibility, fixer, markdown, cli, formatters, lsp, ranges');
   }
 }
 
@@ -3,8 +3,9 @@
  * Tests that combine multiple features and real-world usage patterns
  */
 
-import { validateMermaid } from '../index.js';
+import { validateMermaid, maxNodes, requireTitle, nodeIdPattern, bannedShapes, maxSubgraphDepth } from '../index.js';
 import { createTestSuite, createTestCase, assertValidationResult } from './setup.js';
+import { FlowchartNode } from '../ast/index.js';
 
 export const integrationTests = createTestSuite(
   'Integration Tests',
@@ -264,6 +265,261 @@ export const integrationTests = createTestSuite(
         H-->>A: Final Response`,
       true,
       { expectedDiagramType: 'sequence' }
+    ),
+
+    // Lint rules
+    createTestCase(
+      'House conventions reported as warnings',
+      `flowchart TD
+        start --> Check((Check))
+        subgraph outer
+          subgraph inner
+            a --> b
+          end
+        end`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        hasWarningWithCode: 'BANNED_SHAPE',
+        validationOptions: {
+          lintRules: [maxNodes(10), nodeIdPattern(/^[a-z]/), bannedShapes(['circle']), maxSubgraphDepth(1)]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Lint rule promoted to an error',
+      `sequenceDiagram
+        Alice->>Bob: Hello
+        Bob->>Carol: Hi
+        Carol->>Dave: Hey`,
+      false,
+      {
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'MAX_NODES',
+        validationOptions: { lintRules: [maxNodes(3)], rules: { MAX_NODES: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by the diagram title',
+      `pie title Pets adopted
+        "Dogs" : 386`,
+      true,
+      {
+        expectedDiagramType: 'pie',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a sequence title statement',
+      `sequenceDiagram
+        title Checkout
+        Alice->>Bob: Pay`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a flowchart',
+      `---
+title: Checkout flow
+---
+flowchart TD
+        A --> B`,
+      true,
+      {
+        expectedDiagramType: 'flowchart',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a sequence diagram',
+      `---
+title: "Checkout"
+---
+sequenceDiagram
+        Alice->>Bob: Pay`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a gantt title',
+      `gantt
+        title Release plan
+        dateFormat YYYY-MM-DD
+        section Build
+        Compile :a1, 2024-01-01, 3d`,
+      true,
+      {
+        expectedDiagramType: 'gantt',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a timeline title',
+      `timeline
+        title History
+        2023 : Launch`,
+      true,
+      {
+        expectedDiagramType: 'timeline',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a journey title',
+      `journey
+        title My day
+        section Morning
+        Make tea: 5: Me`,
+      true,
+      {
+        expectedDiagramType: 'journey',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by an xychart title',
+      `xychart-beta
+        title "Sales"
+        x-axis [jan, feb]
+        bar [1, 2]`,
+      true,
+      {
+        expectedDiagramType: 'xychart',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by accTitle on a class diagram',
+      `classDiagram
+        accTitle: Shapes
+        class Shape`,
+      true,
+      {
+        expectedDiagramType: 'class',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a class diagram',
+      `---
+title: Shapes
+---
+classDiagram
+        class Shape`,
+      true,
+      {
+        expectedDiagramType: 'class',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a state diagram',
+      `---
+title: Door
+---
+stateDiagram-v2
+        [*] --> Closed`,
+      true,
+      {
+        expectedDiagramType: 'state',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on an ER diagram',
+      `---
+title: Orders
+---
+erDiagram
+        CUSTOMER ||--o{ ORDER : places`,
+      true,
+      {
+        expectedDiagramType: 'er',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a git graph',
+      `---
+title: Release
+---
+gitGraph
+        commit`,
+      true,
+      {
+        expectedDiagramType: 'gitgraph',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule satisfied by a frontmatter title on a mindmap',
+      `---
+title: Ideas
+---
+mindmap
+        root((Ideas))`,
+      true,
+      {
+        expectedDiagramType: 'mindmap',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Title rule reports a flowchart without a title',
+      `flowchart TD
+        A --> B`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'MISSING_TITLE',
+        validationOptions: { lintRules: [requireTitle()], rules: { MISSING_TITLE: 'error' } }
+      }
+    ),
+
+    createTestCase(
+      'Custom lint rule over the AST',
+      `flowchart LR
+        a --> b`,
+      false,
+      {
+        expectedDiagramType: 'flowchart',
+        hasErrorWithCode: 'NO_UNLABELED_LINKS',
+        validationOptions: {
+          lintRules: [{
+            code: 'NO_UNLABELED_LINKS',
+            severity: 'error',
+            check(context) {
+              for (const element of (context.ast as FlowchartNode).nodes) {
+                if (element.type === 'arrow' && !element.label) {
+                  context.report(element, 'Links must be labeled');
+                }
+              }
+            }
+          }]
+        }
+      }
     )
   ]
 );
@@ -278,12 +534,13 @@ export function runIntegrationTests(): void {
   
   for (const testCase of integrationTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode
         });
       } else {
         assertValidationResult(result, {
@@ -0,0 +1,212 @@
+/**
+ * Tests for the language server
+ * Each case drives the server with a scripted client session and checks the messages it sends back
+ */
+
+import { LanguageServer, LspMessage, MessageReader, encodeMessage } from '../lsp/index.js';
+import { CheckTestSuite, expect, runCheckSuite } from './setup.js';
+
+// Records everything the server sends; requests get increasing ids
+class ScriptedClient {
+  readonly received: LspMessage[] = [];
+  exitCode: number | undefined;
+  private nextId = 1;
+  private server = new LanguageServer(message => this.received.push(message), code => { this.exitCode = code; });
+
+  request(method: string, params?: unknown): LspMessage {
+    const id = this.nextId++;
+    this.server.handle({ jsonrpc: '2.0', id, method, params });
+    const response = this.received.find(message => message.id === id);
+    if (!response) throw new Error(`No response to ${method}`);
+    return response;
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.server.handle({ jsonrpc: '2.0', method, params });
+  }
+
+  open(uri: string, languageId: string, text: string): void {
+    this.notify('textDocument/didOpen', { textDocument: { uri, languageId, version: 1, text } });
+  }
+
+  lastDiagnostics(uri: string): any[] {
+    const published = this.received
+      .filter(message => message.method === 'textDocument/publishDiagnostics')
+      .map(message => message.params as { uri: string; diagnostics: any[] })
+      .filter(params => params.uri === uri);
+    if (published.length === 0) throw new Error(`No diagnostics published for ${uri}`);
+    return published[published.length - 1].diagnostics;
+  }
+}
+
+function initialized(): ScriptedClient {
+  const client = new ScriptedClient();
+  client.request('initialize', { capabilities: {} });
+  client.notify('initialized', {});
+  return client;
+}
+
+export const lspTests: CheckTestSuite = {
+  name: 'LSP Tests',
+  description: 'Tests for diagnostics, code actions and document symbols over a scripted LSP session',
+  testCases: [
+    {
+      name: 'initialize advertises capabilities',
+      check: () => {
+        const client = new ScriptedClient();
+        const { result } = client.request('initialize', { capabilities: {} }) as { result: any };
+        expect(result.capabilities.textDocumentSync === 1, `Expected full sync, got ${JSON.stringify(result.capabilities)}`);
+        expect(result.capabilities.documentSymbolProvider === true, 'Expected document symbols');
+        expect(result.capabilities.codeActionProvider.codeActionKinds[0] === 'quickfix', 'Expected quick fixes');
+      }
+    },
+    {
+      name: 'Requests before initialize are rejected',
+      check: () => {
+        const client = new ScriptedClient();
+        const response = client.request('textDocument/documentSymbol', { textDocument: { uri: 'file:///a.mmd' } });
+        expect(response.error?.code === -32002, `Expected ServerNotInitialized, got ${JSON.stringify(response)}`);
+      }
+    },
+    {
+      name: 'Diagnostics for a .mmd file follow edits',
+      check: () => {
+        const client = initialized();
+        client.open('file:///flow.mmd', 'mermaid', 'flowchart TD\n  A -->');
+        const [diagnostic] = client.lastDiagnostics('file:///flow.mmd');
+        expect(diagnostic.code === 'INCOMPLETE_ARROW' && diagnostic.severity === 1 && diagnostic.source === 'merval',
+          `Unexpected diagnostic ${JSON.stringify(diagnostic)}`);
+        expect(diagnostic.range.start.line === 1, `Expected line 1, got ${diagnostic.range.start.line}`);
+        expect(diagnostic.range.start.character === 4 && diagnostic.range.end.character === 7,
+          `Expected the arrow to be underlined, got ${JSON.stringify(diagnostic.range)}`);
+
+        client.notify('textDocument/didChange', {
+          textDocument: { uri: 'file:///flow.mmd', version: 2 },
+          contentChanges: [{ text: 'flowchart TD\n  A --> B' }]
+        });
+        expect(client.lastDiagnostics('file:///flow.mmd').length === 0, 'Expected diagnostics to clear after the fix');
+      }
+    },
+    {
+      name: 'Diagnostics for mermaid fences in Markdown use document lines',
+      check: () => {
+        const client = initialized();
+        client.open('file:///README.md', 'markdown', '# Title\n\nText\n\n```mermaid\nflowchart TD\n  A --> B %% note\n```\n');
+        const [diagnostic] = client.lastDiagnostics('file:///README.md');
+        expect(diagnostic.code === 'INLINE_COMMENT_NOT_SUPPORTED' && diagnostic.severity === 2,
+          `Unexpected diagnostic ${JSON.stringify(diagnostic)}`);
+        expect(diagnostic.range.start.line === 6, `Expected line 6, got ${diagnostic.range.start.line}`);
+      }
+    },
+    {
+      name: 'Other languages are ignored and closing clears diagnostics',
+      check: () => {
+        const client = initialized();
+        client.open('file:///main.ts', 'typescript', 'flowchart TD\n  A -->');
+        expect(!client.received.some(message => message.method === 'textDocument/publishDiagnostics'), 'Expected no diagnostics for TypeScript');
+
+        client.open('file:///flow.mmd', 'mermaid', 'flowchart TD\n  A -->');
+        client.notify('textDocument/didClose', { textDocument: { uri: 'file:///flow.mmd' } });
+        expect(client.lastDiagnostics('file:///flow.mmd').length === 0, 'Expected diagnostics to clear on close');
+      }
+    },
+    {
+      name: 'Code actions apply the fix with the suggestion as title',
+      check: () => {
+        const client = initialized();
+        client.open('file:///flow.mmd', 'mermaid', 'flowchart TD\n  A --> B %% note\n  B --> C');
+        const { result } = client.request('textDocument/codeAction', {
+          textDocument: { uri: 'file:///flow.mmd' },
+          range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+          context: { diagnostics: client.lastDiagnostics('file:///flow.mmd') }
+        }) as { result: any[] };
+        expect(result.length === 1, `Expected one action, got ${JSON.stringify(result)}`);
+        const [action] = result;
+        expect(action.title === 'Move comment to its own line' && action.kind === 'quickfix', `Unexpected action ${JSON.stringify(action)}`);
+        const [edit] = action.edit.changes['file:///flow.mmd'];
+        expect(edit.newText === '  %% note\n  A --> B', `Unexpected edit text ${JSON.stringify(edit.newText)}`);
+        expect(edit.range.start.line === 1 && edit.range.start.character === 0 && edit.range.end.character === 17,
+          `Unexpected edit range ${JSON.stringify(edit.range)}`);
+
+        const { result: elsewhere } = client.request('textDocument/codeAction', {
+          textDocument: { uri: 'file:///flow.mmd' },
+          range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } },
+          context: { diagnostics: [] }
+        }) as { result: any[] };
+        expect(elsewhere.length === 0, `Expected no actions on line 2, got ${JSON.stringify(elsewhere)}`);
+      }
+    },
+    {
+      name: 'Document symbols list subgraphs and nodes',
+      check: () => {
+        const client = initialized();
+        client.open('file:///flow.mmd', 'mermaid', 'flowchart TD\n  subgraph api\n    A[Gateway] --> B\n  end\n  B --> C');
+        const { result } = client.request('textDocument/documentSymbol', { textDocument: { uri: 'file:///flow.mmd' } }) as { result: any[] };
+        const outline = result.map(symbol => `${symbol.name}(${symbol.children.map((child: any) => child.name).join(',')})`);
+        expect(JSON.stringify(outline) === '["api(A,B)","C()"]', `Unexpected symbols ${JSON.stringify(outline)}`);
+        expect(result[0].kind === 3 && result[0].children[0].detail === 'Gateway', `Unexpected subgraph symbol ${JSON.stringify(result[0])}`);
+        expect(result[0].range.end.line >= result[0].children[1].range.end.line, 'Expected the subgraph range to enclose its nodes');
+      }
+    },
+    {
+      name: 'Document symbols for Markdown group participants by diagram',
+      check: () => {
+        const client = initialized();
+        client.open('file:///doc.md', 'markdown', 'Intro\n\n```mermaid\nsequenceDiagram\n  participant Alice\n  Alice->>Bob: Hi\n```\n');
+        const { result } = client.request('textDocument/documentSymbol', { textDocument: { uri: 'file:///doc.md' } }) as { result: any[] };
+        expect(result.length === 1 && result[0].name === 'sequence', `Unexpected diagrams ${JSON.stringify(result)}`);
+        const names = result[0].children.map((child: any) => child.name);
+        expect(JSON.stringify(names) === '["Alice","Bob"]', `Unexpected participants ${JSON.stringify(names)}`);
+        expect(result[0].children[0].range.start.line === 4, `Expected Alice on line 4, got ${result[0].children[0].range.start.line}`);
+      }
+    },
+    {
+      name: 'Malformed params get InvalidParams instead of crashing',
+      check: () => {
+        const client = initialized();
+        expect(client.request('textDocument/codeAction').error?.code === -32602, 'Expected InvalidParams for a code action without params');
+        expect(client.request('textDocument/documentSymbol', { textDocument: {} }).error?.code === -32602,
+          'Expected InvalidParams for a document symbol request without a uri');
+        client.notify('textDocument/didOpen');
+        client.notify('textDocument/didChange', { textDocument: { uri: 'file:///flow.mmd' } });
+        client.notify('textDocument/didClose', null);
+        expect(!client.received.some(message => message.method === 'textDocument/publishDiagnostics'), 'Expected malformed notifications to be ignored');
+
+        const responses: LspMessage[] = [];
+        new LanguageServer(message => responses.push(message)).receive('null');
+        expect(responses[0]?.error?.code === -32600, `Expected InvalidRequest, got ${JSON.stringify(responses)}`);
+      }
+    },
+    {
+      name: 'Unknown requests get MethodNotFound and exit follows shutdown',
+      check: () => {
+        const client = initialized();
+        expect(client.request('workspace/unknown').error?.code === -32601, 'Expected MethodNotFound');
+        client.request('shutdown');
+        client.notify('exit');
+        expect(client.exitCode === 0, `Expected exit code 0, got ${client.exitCode}`);
+      }
+    },
+    {
+      name: 'Message framing handles split and batched chunks',
+      check: () => {
+        const bodies: string[] = [];
+        const reader = new MessageReader(json => bodies.push(json));
+        const first = encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///é' } });
+        const second = encodeMessage({ jsonrpc: '2.0', method: 'initialized', params: {} });
+        const bytes = Buffer.from(first + second, 'utf8');
+        reader.push(bytes.subarray(0, 10));
+        reader.push(bytes.subarray(10, 70));
+        reader.push(bytes.subarray(70));
+        expect(bodies.length === 2, `Expected 2 messages, got ${bodies.length}`);
+        expect(JSON.parse(bodies[0]).params.rootUri === 'file:///é', `Unexpected first body ${bodies[0]}`);
+        expect(JSON.parse(bodies[1]).method === 'initialized', `Unexpected second body ${bodies[1]}`);
+      }
+    }
+  ]
+};
+
+// Run the tests
+export function runLspTests(): void {
+  runCheckSuite(lspTests);
+}
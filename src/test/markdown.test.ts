@@ -0,0 +1,131 @@
+/**
+ * Tests for validating mermaid diagrams embedded in Markdown, MDX and HTML
+ * Each case checks the blocks found and the document positions of the findings
+ */
+
+import { validateMarkdown } from '../index.js';
+
+interface MarkdownTestCase {
+  name: string;
+  input: string;
+  expectedBlocks: number;
+  // Findings as 'CODE@line:column' in document coordinates, errors before warnings
+  expectedFindings: string[];
+}
+
+export const markdownTests: { name: string; description: string; testCases: MarkdownTestCase[] } = {
+  name: 'Markdown Tests',
+  description: 'Tests for validateMarkdown block extraction and position mapping',
+  testCases: [
+    {
+      name: 'Backtick fence with positions mapped to the document',
+      input: `# Flow
+
+Some text.
+
+\`\`\`mermaid
+flowchart TD
+    A --> B
+    C -->
+\`\`\``,
+      expectedBlocks: 1,
+      expectedFindings: ['INCOMPLETE_ARROW@8:7']
+    },
+    {
+      name: 'Tilde fence indented inside a list item',
+      input: `- step one
+
+  ~~~mermaid
+  flowchart LR
+    A --> B
+    B --> C[
+  ~~~`,
+      expectedBlocks: 1,
+      expectedFindings: ['UNCLOSED_NODE_SHAPE@6:12']
+    },
+    {
+      name: 'Other fences are skipped, including mermaid examples inside them',
+      input: `\`\`\`\`markdown
+\`\`\`mermaid
+flowchart TD
+    A -->
+\`\`\`
+\`\`\`\`
+
+\`\`\`js
+const diagram = 'flowchart TD';
+\`\`\``,
+      expectedBlocks: 0,
+      expectedFindings: []
+    },
+    {
+      name: 'MDX className div with HTML entities',
+      input: `import Chart from './Chart';
+
+<div className="mermaid">
+  flowchart LR
+    A --&gt; B --> C[
+</div>`,
+      expectedBlocks: 1,
+      expectedFindings: ['UNCLOSED_NODE_SHAPE@5:21']
+    },
+    {
+      name: 'pre block alongside a fence',
+      input: `<pre class="mermaid">
+pie title Pets
+    "Dogs" : 386
+</pre>
+
+\`\`\`mermaid
+graph TD
+    A --> B
+\`\`\``,
+      expectedBlocks: 2,
+      expectedFindings: []
+    },
+    {
+      name: 'Unclosed fence is reported',
+      input: `Intro
+
+\`\`\`mermaid
+flowchart TD
+    A --> B`,
+      expectedBlocks: 1,
+      expectedFindings: ['UNCLOSED_MERMAID_BLOCK@3:1']
+    }
+  ]
+};
+
+// Run the tests
+export function runMarkdownTests(): void {
+  console.log(`\n🧪 Running ${markdownTests.name}`);
+  console.log(`📝 ${markdownTests.description}`);
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of markdownTests.testCases) {
+    try {
+      const result = validateMarkdown(testCase.input);
+
+      if (result.blocks.length !== testCase.expectedBlocks) {
+        throw new Error(`Expected ${testCase.expectedBlocks} blocks, but found ${result.blocks.length}`);
+      }
+      const findings = [...result.errors, ...result.warnings].map(finding => `${finding.code}@${finding.line}:${finding.column}`);
+      if (JSON.stringify(findings) !== JSON.stringify(testCase.expectedFindings)) {
+        throw new Error(`Expected findings ${JSON.stringify(testCase.expectedFindings)}, but got ${JSON.stringify(findings)}`);
+      }
+      if (result.isValid !== (result.errors.length === 0)) {
+        throw new Error(`Expected isValid to be ${result.errors.length === 0}`);
+      }
+
+      console.log(`✅ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${testCase.name}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 Markdown Tests Results: ${passed} passed, ${failed} failed`);
+}
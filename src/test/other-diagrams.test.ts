@@ -35,6 +35,143 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'class' }
     ),
 
+    createTestCase(
+      'Class diagram with generics, annotations and namespaces',
+      `classDiagram
+        class Shape~T~ {
+          <<interface>>
+          +draw()$ void
+          -List~T~ points
+        }
+        <<abstract>> Animal
+        Animal "1" *-- "many" Leg : has
+        Animal o-- Owner
+        Animal ..> Food
+        Dog ..|> Shape
+        Animal : +isMammal() bool
+        namespace Zoo {
+          class Keeper
+        }`,
+      true,
+      {
+        expectedDiagramType: 'class',
+        expectedAst: {
+          classes: [
+            {
+              name: 'Shape',
+              generic: 'T',
+              annotations: ['interface'],
+              members: [
+                { kind: 'method', name: 'draw', visibility: '+', parameters: '', classifier: '$', memberType: 'void' },
+                { kind: 'attribute', name: 'points', visibility: '-', memberType: 'List~T~' }
+              ]
+            },
+            { name: 'Animal', annotations: ['abstract'], members: [{ kind: 'method', name: 'isMammal', memberType: 'bool' }] },
+            { name: 'Leg' },
+            { name: 'Owner' },
+            { name: 'Food' },
+            { name: 'Dog' },
+            { name: 'Keeper', namespace: 'Zoo' }
+          ],
+          relations: [
+            { from: 'Animal', to: 'Leg', relationType: 'composition', lineStyle: 'solid', fromCardinality: '1', toCardinality: 'many', label: 'has' },
+            { from: 'Animal', to: 'Owner', relationType: 'aggregation', lineStyle: 'solid' },
+            { from: 'Animal', to: 'Food', relationType: 'dependency', lineStyle: 'dashed' },
+            { from: 'Dog', to: 'Shape', relationType: 'realization', lineStyle: 'dashed' }
+          ],
+          namespaces: [{ name: 'Zoo', classes: ['Keeper'] }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Class bodies on one line',
+      `classDiagram
+        class Foo { +a }
+        class Bar { +method() bool }
+        class Shape { <<interface>> }
+        class Empty {}
+        Foo <|-- Bar`,
+      true,
+      {
+        expectedDiagramType: 'class',
+        expectedAst: {
+          classes: [
+            { name: 'Foo', members: [{ kind: 'attribute', name: 'a', visibility: '+' }] },
+            { name: 'Bar', members: [{ kind: 'method', name: 'method', memberType: 'bool' }] },
+            { name: 'Shape', annotations: ['interface'], members: [] },
+            { name: 'Empty', members: [] }
+          ],
+          relations: [{ from: 'Foo', to: 'Bar', relationType: 'inheritance' }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Class body opened on the declaration line',
+      `classDiagram
+        class Foo~T~ { +bar() int
+          -x : int }
+        class Bar { <<service>>
+          +run()
+        }
+        Foo <-- Bar`,
+      true,
+      {
+        expectedDiagramType: 'class',
+        expectedAst: {
+          classes: [
+            {
+              name: 'Foo',
+              generic: 'T',
+              members: [
+                { kind: 'method', name: 'bar', visibility: '+', memberType: 'int' },
+                { kind: 'attribute', name: 'x', visibility: '-', memberType: 'int' }
+              ]
+            },
+            { name: 'Bar', annotations: ['service'], members: [{ kind: 'method', name: 'run' }] }
+          ],
+          relations: [{ from: 'Foo', to: 'Bar' }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Class body without closing brace',
+      `classDiagram
+        class Animal {
+          +String name
+        class Dog`,
+      false,
+      { 
+        expectedDiagramType: 'class',
+        hasErrorWithCode: 'UNCLOSED_CLASS_BODY'
+      }
+    ),
+
+    createTestCase(
+      'Class diagram with extra closing brace',
+      `classDiagram
+        class Animal
+        }`,
+      false,
+      { 
+        expectedDiagramType: 'class',
+        hasErrorWithCode: 'UNMATCHED_CLASS_BRACE'
+      }
+    ),
+
+    createTestCase(
+      'Class diagram with unknown relationship operator',
+      `classDiagram
+        Animal <|-x Dog`,
+      false,
+      { 
+        expectedDiagramType: 'class',
+        hasErrorWithCode: 'UNKNOWN_CLASS_RELATION'
+      }
+    ),
+
     // State diagrams
     createTestCase(
       'Basic state diagram',
@@ -59,6 +196,104 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'state' }
     ),
 
+    createTestCase(
+      'State diagram with composite states, forks and notes',
+      `stateDiagram-v2
+        state "Waiting for input" as Waiting
+        [*] --> Waiting
+        Waiting --> Processing : submit
+        state Processing {
+          [*] --> Validate
+          Validate --> Save
+          --
+          [*] --> Audit
+        }
+        state split <<fork>>
+        state merge <<join>>
+        state decide <<choice>>
+        Processing --> split
+        split --> merge
+        merge --> decide
+        decide --> [*]
+        note left of Waiting : Idle state
+        note right of Processing
+          Runs validation and
+          auditing in parallel
+        end note`,
+      true,
+      {
+        expectedDiagramType: 'state',
+        expectedAst: {
+          states: [
+            { id: 'Waiting', kind: 'simple', label: 'Waiting for input' },
+            {
+              id: 'Processing',
+              kind: 'composite',
+              regions: [
+                {
+                  states: [{ id: 'Validate' }, { id: 'Save' }],
+                  transitions: [{ from: '[*]', to: 'Validate' }, { from: 'Validate', to: 'Save' }]
+                },
+                { states: [{ id: 'Audit' }], transitions: [{ from: '[*]', to: 'Audit' }] }
+              ]
+            },
+            { id: 'split', kind: 'fork' },
+            { id: 'merge', kind: 'join' },
+            { id: 'decide', kind: 'choice' }
+          ],
+          transitions: [
+            { from: '[*]', to: 'Waiting' },
+            { from: 'Waiting', to: 'Processing', label: 'submit' },
+            { from: 'Processing', to: 'split' },
+            { from: 'split', to: 'merge' },
+            { from: 'merge', to: 'decide' },
+            { from: 'decide', to: '[*]' }
+          ],
+          notes: [
+            { position: 'left of', state: 'Waiting', text: 'Idle state' },
+            { position: 'right of', state: 'Processing', text: 'Runs validation and\nauditing in parallel' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'State diagram with unclosed composite state',
+      `stateDiagram-v2
+        state Processing {
+          [*] --> Validate
+          Validate --> Save`,
+      false,
+      { 
+        expectedDiagramType: 'state',
+        hasErrorWithCode: 'UNCLOSED_COMPOSITE_STATE'
+      }
+    ),
+
+    createTestCase(
+      'State diagram with unclosed multi-line note',
+      `stateDiagram-v2
+        [*] --> Still
+        note right of Still
+          This note never ends`,
+      false,
+      { 
+        expectedDiagramType: 'state',
+        hasErrorWithCode: 'UNCLOSED_STATE_NOTE'
+      }
+    ),
+
+    createTestCase(
+      'State diagram with unknown state type',
+      `stateDiagram-v2
+        state branch <<split>>`,
+      false,
+      { 
+        expectedDiagramType: 'state',
+        hasErrorWithCode: 'INVALID_STATE_TYPE'
+      }
+    ),
+
     createTestCase(
       'Empty state diagram',
       `stateDiagram-v2`,
@@ -84,6 +319,84 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'pie' }
     ),
 
+    createTestCase(
+      'Pie chart with showData and decimal values',
+      `pie showData
+        title Key elements in Product X
+        "Calcium" : 42.96
+        "Potassium" : 50.05
+        "Magnesium" : 10.01`,
+      true,
+      {
+        expectedDiagramType: 'pie',
+        expectedAst: {
+          title: 'Key elements in Product X',
+          showData: true,
+          slices: [
+            { label: 'Calcium', value: 42.96 },
+            { label: 'Potassium', value: 50.05 },
+            { label: 'Magnesium', value: 10.01 }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Pie chart with unquoted slice label',
+      `pie title Pets
+        Dogs : 386`,
+      false,
+      { 
+        expectedDiagramType: 'pie',
+        hasErrorWithCode: 'INVALID_PIE_SLICE'
+      }
+    ),
+
+    createTestCase(
+      'Pie chart slice without colon',
+      `pie title Pets
+        "Dogs" 386`,
+      false,
+      { 
+        expectedDiagramType: 'pie',
+        hasErrorWithCode: 'INVALID_PIE_SLICE'
+      }
+    ),
+
+    createTestCase(
+      'Pie chart with non-numeric value',
+      `pie title Pets
+        "Dogs" : many`,
+      false,
+      { 
+        expectedDiagramType: 'pie',
+        hasErrorWithCode: 'INVALID_PIE_VALUE'
+      }
+    ),
+
+    createTestCase(
+      'Pie chart with negative value',
+      `pie title Pets
+        "Dogs" : -5`,
+      false,
+      { 
+        expectedDiagramType: 'pie',
+        hasErrorWithCode: 'NEGATIVE_PIE_VALUE'
+      }
+    ),
+
+    createTestCase(
+      'Pie chart with duplicate labels',
+      `pie title Pets
+        "Dogs" : 386
+        "Dogs" : 85`,
+      false,
+      { 
+        expectedDiagramType: 'pie',
+        hasErrorWithCode: 'DUPLICATE_PIE_LABEL'
+      }
+    ),
+
     // XY Charts
     createTestCase(
       'Basic XY chart',
@@ -129,6 +442,18 @@ export const otherDiagramTests = createTestSuite(
       }
     ),
 
+    createTestCase(
+      'XY chart with unquoted special characters in x-axis (warning)',
+      `xychart-beta
+  x-axis [jan, feb&mar]
+  bar [1, 2, 3]`,
+      true,
+      {
+        expectedDiagramType: 'xychart',
+        hasWarningWithCode: 'INVALID_IDENTIFIER'
+      }
+    ),
+
     // XY chart edge cases (unsupported chart types)
     createTestCase(
       'XY chart with area (unsupported)',
@@ -264,6 +589,147 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'gitgraph' }
     ),
 
+    createTestCase(
+      'Gitgraph with commit options, switch and cherry-pick',
+      `gitGraph
+        commit id: "init" tag: "v0.1"
+        branch develop
+        commit id: "feat" type: HIGHLIGHT
+        switch main
+        commit id: "fix" type: REVERSE
+        merge develop id: "merge-1" tag: "v1.0"
+        branch release
+        cherry-pick id: "fix"`,
+      true,
+      {
+        expectedDiagramType: 'gitgraph',
+        expectedAst: {
+          branches: ['main', 'develop', 'release'],
+          commands: [
+            { command: 'commit', branch: 'main', id: 'init', tag: 'v0.1' },
+            { command: 'branch', branch: 'develop' },
+            { command: 'commit', branch: 'develop', id: 'feat', commitType: 'HIGHLIGHT' },
+            { command: 'checkout', branch: 'main' },
+            { command: 'commit', branch: 'main', id: 'fix', commitType: 'REVERSE' },
+            { command: 'merge', branch: 'develop', id: 'merge-1', tag: 'v1.0' },
+            { command: 'branch', branch: 'release' },
+            { command: 'cherry-pick', branch: 'release', id: 'fix' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph header with a colon and no orientation',
+      `gitGraph:
+        commit
+        branch develop
+        commit`,
+      true,
+      { expectedDiagramType: 'gitgraph' }
+    ),
+
+    createTestCase(
+      'Gitgraph checkout of unknown branch',
+      `gitGraph
+        commit
+        checkout develop`,
+      false,
+      { 
+        expectedDiagramType: 'gitgraph',
+        hasErrorWithCode: 'UNKNOWN_BRANCH'
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph checkout of unknown branch reports no follow-on errors',
+      `gitGraph
+        commit
+        checkout develop
+        commit
+        merge main`,
+      false,
+      {
+        expectedDiagramType: 'gitgraph',
+        expectedErrors: [{ code: 'UNKNOWN_BRANCH' }],
+        errorCount: 1
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph main branch renamed by an init directive',
+      `%%{init: { 'gitGraph': { 'mainBranchName': 'trunk' } } }%%
+gitGraph
+        commit
+        branch develop
+        commit
+        checkout trunk
+        merge develop`,
+      true,
+      {
+        expectedDiagramType: 'gitgraph',
+        expectedAst: { branches: ['trunk', 'develop'] }
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph main branch renamed by frontmatter config',
+      `---
+config:
+  gitGraph:
+    mainBranchName: trunk
+---
+gitGraph
+        commit
+        branch develop
+        checkout trunk
+        merge develop`,
+      true,
+      {
+        expectedDiagramType: 'gitgraph',
+        expectedAst: { branches: ['trunk', 'develop'] }
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph merging a branch into itself',
+      `gitGraph
+        commit
+        branch develop
+        commit
+        merge develop`,
+      false,
+      { 
+        expectedDiagramType: 'gitgraph',
+        hasErrorWithCode: 'MERGE_SAME_BRANCH'
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph with duplicate commit ids',
+      `gitGraph
+        commit id: "a"
+        commit id: "a"`,
+      false,
+      { 
+        expectedDiagramType: 'gitgraph',
+        hasErrorWithCode: 'DUPLICATE_COMMIT_ID'
+      }
+    ),
+
+    createTestCase(
+      'Gitgraph cherry-pick of unknown commit',
+      `gitGraph
+        commit id: "a"
+        branch develop
+        cherry-pick id: "missing"`,
+      false,
+      { 
+        expectedDiagramType: 'gitgraph',
+        hasErrorWithCode: 'UNKNOWN_COMMIT_ID'
+      }
+    ),
+
     createTestCase(
       'Empty gitgraph',
       `gitgraph`,
@@ -291,7 +757,91 @@ export const otherDiagramTests = createTestSuite(
                 Strategic planning
                 Argument mapping`,
       true,
-      { expectedDiagramType: 'mindmap' }
+      {
+        expectedDiagramType: 'mindmap',
+        expectedAst: {
+          root: {
+            label: 'mindmap',
+            shape: 'circle',
+            children: [
+              {
+                label: 'Origins',
+                children: [
+                  { label: 'Long history', icon: 'fa fa-book', children: [] },
+                  { label: 'Popularisation', children: [{ children: [] }, { icon: 'fa fa-book', children: [] }] }
+                ]
+              },
+              {
+                label: 'Research',
+                children: [
+                  { label: 'On effectiveness<br/>and features', children: [] },
+                  { label: 'On Automatic creation', children: [{ label: 'Uses', children: [{}, {}, {}] }] }
+                ]
+              }
+            ]
+          }
+        }
+      }
+    ),
+
+    createTestCase(
+      'Mindmap with every node shape, icons and classes',
+      `mindmap
+        root((Project))
+          square[Square]
+          rounded(Rounded)
+          circle((Circle))
+          bang))Bang((
+          cloud)Cloud(
+          hexagon{{Hexagon}}
+            ::icon(fa fa-star)
+            :::urgent large`,
+      true,
+      {
+        expectedDiagramType: 'mindmap',
+        expectedAst: {
+          root: {
+            id: 'root',
+            label: 'Project',
+            shape: 'circle',
+            children: [
+              { id: 'square', label: 'Square', shape: 'square' },
+              { id: 'rounded', label: 'Rounded', shape: 'rounded' },
+              { id: 'circle', label: 'Circle', shape: 'circle' },
+              { id: 'bang', label: 'Bang', shape: 'bang' },
+              { id: 'cloud', label: 'Cloud', shape: 'cloud' },
+              { id: 'hexagon', label: 'Hexagon', shape: 'hexagon', icon: 'fa fa-star', classes: ['urgent', 'large'], children: [] }
+            ]
+          }
+        }
+      }
+    ),
+
+    createTestCase(
+      'Mindmap with multiple roots',
+      `mindmap
+        Root
+          Child
+        Another root`,
+      false,
+      { 
+        expectedDiagramType: 'mindmap',
+        hasErrorWithCode: 'MULTIPLE_MINDMAP_ROOTS'
+      }
+    ),
+
+    createTestCase(
+      'Mindmap with inconsistent indentation',
+      `mindmap
+        Root
+            Child
+              Grandchild
+           Sibling`,
+      false,
+      { 
+        expectedDiagramType: 'mindmap',
+        hasErrorWithCode: 'INCONSISTENT_MINDMAP_INDENT'
+      }
     ),
 
     createTestCase(
@@ -322,6 +872,126 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'timeline' }
     ),
 
+    createTestCase(
+      'Timeline with sections and multi-event periods',
+      `timeline
+        title History of Social Media
+        section 2002-2004
+          2002 : LinkedIn
+          2004 : Facebook : Google
+        section 2005
+          2005 : Youtube
+               : Reddit`,
+      true,
+      {
+        expectedDiagramType: 'timeline',
+        expectedAst: {
+          title: 'History of Social Media',
+          sections: [
+            {
+              name: '2002-2004',
+              periods: [{ label: '2002', events: ['LinkedIn'] }, { label: '2004', events: ['Facebook', 'Google'] }]
+            },
+            { name: '2005', periods: [{ label: '2005', events: ['Youtube', 'Reddit'] }] }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Timeline period without events',
+      `timeline
+        2002
+        2004 : Facebook`,
+      false,
+      { 
+        expectedDiagramType: 'timeline',
+        hasErrorWithCode: 'TIMELINE_PERIOD_WITHOUT_EVENTS'
+      }
+    ),
+
+    createTestCase(
+      'Timeline with stray colon',
+      `timeline
+        2004 : : Facebook`,
+      false,
+      { 
+        expectedDiagramType: 'timeline',
+        hasErrorWithCode: 'STRAY_TIMELINE_COLON'
+      }
+    ),
+
+    createTestCase(
+      'Timeline event before first period',
+      `timeline
+        : Facebook
+        2004 : Google`,
+      false,
+      { 
+        expectedDiagramType: 'timeline',
+        hasErrorWithCode: 'TIMELINE_EVENT_WITHOUT_PERIOD'
+      }
+    ),
+
+    // User journeys
+    createTestCase(
+      'Journey with sections and multiple actors',
+      `journey
+        title My working day
+        section Go to work
+          Make tea: 5: Me
+          Do work: 1: Me, Cat`,
+      true,
+      {
+        expectedDiagramType: 'journey',
+        expectedAst: {
+          title: 'My working day',
+          sections: [
+            {
+              name: 'Go to work',
+              tasks: [{ name: 'Make tea', score: 5, actors: ['Me'] }, { name: 'Do work', score: 1, actors: ['Me', 'Cat'] }]
+            }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Journey score outside 1-5',
+      `journey
+        section Go to work
+          Make tea: 7: Me`,
+      false,
+      { 
+        expectedDiagramType: 'journey',
+        hasErrorWithCode: 'JOURNEY_SCORE_OUT_OF_RANGE'
+      }
+    ),
+
+    createTestCase(
+      'Journey task without actors',
+      `journey
+        section Go to work
+          Make tea: 5`,
+      false,
+      { 
+        expectedDiagramType: 'journey',
+        hasErrorWithCode: 'MISSING_JOURNEY_ACTORS'
+      }
+    ),
+
+    createTestCase(
+      'Journey task before any section',
+      `journey
+        Make tea: 5: Me
+        section Go to work`,
+      false,
+      { 
+        expectedDiagramType: 'journey',
+        hasErrorWithCode: 'JOURNEY_TASK_WITHOUT_SECTION'
+      }
+    ),
+
     // Gantt charts
     createTestCase(
       'Basic gantt chart',
@@ -342,6 +1012,136 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'gantt' }
     ),
 
+    createTestCase(
+      'Gantt chart with statuses, milestones and settings',
+      `gantt
+        title Release plan
+        dateFormat YYYY-MM-DD
+        axisFormat %m/%d
+        excludes weekends
+        todayMarker off
+        section Build
+        Design        :done, des1, 2024-01-01, 2024-01-05
+        Implement     :active, impl, after des1, 10d
+        section Ship
+        Review        :crit, rev, after impl, 2d
+        Release       :milestone, rel, after rev, 0d`,
+      true,
+      {
+        expectedDiagramType: 'gantt',
+        expectedAst: {
+          dateFormat: 'YYYY-MM-DD',
+          axisFormat: '%m/%d',
+          excludes: ['weekends'],
+          todayMarker: 'off',
+          sections: [
+            {
+              name: 'Build',
+              tasks: [
+                { name: 'Design', statuses: ['done'], id: 'des1', start: '2024-01-01', end: '2024-01-05' },
+                { name: 'Implement', statuses: ['active'], id: 'impl', after: ['des1'], duration: '10d' }
+              ]
+            },
+            {
+              name: 'Ship',
+              tasks: [
+                { name: 'Review', statuses: ['crit'], id: 'rev', after: ['impl'], duration: '2d' },
+                { name: 'Release', statuses: ['milestone'], id: 'rel', after: ['rev'], duration: '0d' }
+              ]
+            }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Gantt chart with date not matching dateFormat',
+      `gantt
+        dateFormat YYYY-MM-DD
+        section Section
+        A task :a1, 01/02/2024, 3d`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        hasErrorWithCode: 'INVALID_GANTT_DATE'
+      }
+    ),
+
+    createTestCase(
+      'Gantt chart with month and day out of range',
+      `gantt
+        dateFormat YYYY-MM-DD
+        section Section
+        A task :a1, 2024-13-45, 3d`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        expectedErrors: [{ code: 'INVALID_GANTT_DATE', message: 'has month 13' }]
+      }
+    ),
+
+    createTestCase(
+      'Gantt chart with February 29th outside a leap year',
+      `gantt
+        dateFormat DD/MM/YYYY
+        section Section
+        A task :a1, 29/02/2023, 3d`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        expectedErrors: [{ code: 'INVALID_GANTT_DATE', message: 'has day 29' }]
+      }
+    ),
+
+    createTestCase(
+      'Gantt chart with leap day and month-end dates',
+      `gantt
+        dateFormat YYYY-MM-DD
+        section Section
+        A task :a1, 2024-02-29, 3d
+        B task :b1, 2024-12-31, 1d`,
+      true,
+      { expectedDiagramType: 'gantt' }
+    ),
+
+    createTestCase(
+      'Gantt chart with unknown after reference',
+      `gantt
+        section Section
+        A task :a1, 2024-01-01, 3d
+        B task :b1, after missing, 2d`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        hasErrorWithCode: 'UNKNOWN_GANTT_DEPENDENCY'
+      }
+    ),
+
+    createTestCase(
+      'Gantt chart with dependency cycle',
+      `gantt
+        section Section
+        A task :a1, after b1, 3d
+        B task :b1, after a1, 2d`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        hasErrorWithCode: 'GANTT_DEPENDENCY_CYCLE'
+      }
+    ),
+
+    createTestCase(
+      'Gantt task without task data',
+      `gantt
+        section Section
+        A task`,
+      false,
+      { 
+        expectedDiagramType: 'gantt',
+        hasErrorWithCode: 'INVALID_GANTT_TASK'
+      }
+    ),
+
     // ER diagrams
     createTestCase(
       'Basic ER diagram',
@@ -353,6 +1153,127 @@ export const otherDiagramTests = createTestSuite(
       { expectedDiagramType: 'er' }
     ),
 
+    createTestCase(
+      'ER diagram with attributes, keys and aliases',
+      `erDiagram
+        CUSTOMER ||--o{ ORDER : places
+        ORDER ||--|{ LINE-ITEM : "is part of"
+        CUSTOMER {
+          string name PK "Full name"
+          varchar(255) email UK
+          int addressId FK
+        }
+        ORDER["Purchase Order"] {
+          int id PK, FK
+        }`,
+      true,
+      {
+        expectedDiagramType: 'er',
+        expectedAst: {
+          entities: [
+            {
+              name: 'CUSTOMER',
+              attributes: [
+                { attributeType: 'string', name: 'name', keys: ['PK'], comment: 'Full name' },
+                { attributeType: 'varchar(255)', name: 'email', keys: ['UK'] },
+                { attributeType: 'int', name: 'addressId', keys: ['FK'] }
+              ]
+            },
+            { name: 'ORDER', alias: 'Purchase Order', attributes: [{ attributeType: 'int', name: 'id', keys: ['PK', 'FK'] }] },
+            { name: 'LINE-ITEM', attributes: [] }
+          ],
+          relationships: [
+            { from: 'CUSTOMER', to: 'ORDER', fromCardinality: 'exactly-one', toCardinality: 'zero-or-more', identifying: true, label: 'places' },
+            { from: 'ORDER', to: 'LINE-ITEM', fromCardinality: 'exactly-one', toCardinality: 'one-or-more', identifying: true, label: 'is part of' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'ER diagram with invalid cardinality marker',
+      `erDiagram
+        CUSTOMER |{--o{ ORDER : places`,
+      false,
+      { 
+        expectedDiagramType: 'er',
+        hasErrorWithCode: 'INVALID_ER_CARDINALITY'
+      }
+    ),
+
+    createTestCase(
+      'ER diagram with cardinality word aliases',
+      `erDiagram
+        CAR 1 to zero or more NAMED-DRIVER : allows
+        PERSON only one optionally to many(0) CAR : owns
+        TEAM one or more to zero or one COACH : "is led by"
+        ORDER 1+ to 0+ LINE-ITEM : contains
+        SHIPMENT many(1) optionally to only one ORDER : ships
+        COACH one or zero to 1+ TEAM : trains`,
+      true,
+      {
+        expectedDiagramType: 'er',
+        expectedAst: {
+          relationships: [
+            { from: 'CAR', to: 'NAMED-DRIVER', fromCardinality: 'exactly-one', toCardinality: 'zero-or-more', identifying: true },
+            { from: 'PERSON', to: 'CAR', fromCardinality: 'exactly-one', toCardinality: 'zero-or-more', identifying: false },
+            { from: 'TEAM', to: 'COACH', fromCardinality: 'one-or-more', toCardinality: 'zero-or-one', label: 'is led by' },
+            { from: 'ORDER', to: 'LINE-ITEM', fromCardinality: 'one-or-more', toCardinality: 'zero-or-more' },
+            { from: 'SHIPMENT', to: 'ORDER', fromCardinality: 'one-or-more', toCardinality: 'exactly-one', identifying: false },
+    { from: 'COACH', to: 'TEAM', fromCardinality: 'zero-or-one', toCardinality: 'one-or-more', label: 'trains' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'ER diagram with unknown cardinality alias',
+      `erDiagram
+        CAR 1 to lots NAMED-DRIVER : allows`,
+      false,
+      { 
+        expectedDiagramType: 'er',
+        hasErrorWithCode: 'INVALID_ER_CARDINALITY'
+      }
+    ),
+
+    createTestCase(
+      'ER relationship without label',
+      `erDiagram
+        CUSTOMER ||--o{ ORDER`,
+      false,
+      { 
+        expectedDiagramType: 'er',
+        hasErrorWithCode: 'MISSING_ER_RELATIONSHIP_LABEL'
+      }
+    ),
+
+    createTestCase(
+      'ER entity block without closing brace',
+      `erDiagram
+        CUSTOMER {
+          string name
+        CUSTOMER ||--o{ ORDER : places`,
+      false,
+      { 
+        expectedDiagramType: 'er',
+        hasErrorWithCode: 'UNCLOSED_ER_ENTITY'
+      }
+    ),
+
+    createTestCase(
+      'ER attribute with unknown key',
+      `erDiagram
+        CUSTOMER {
+          string name XK
+        }`,
+      false,
+      { 
+        expectedDiagramType: 'er',
+        hasErrorWithCode: 'INVALID_ER_ATTRIBUTE'
+      }
+    ),
+
     createTestCase(
       'Empty ER diagram',
       `erDiagram`,
@@ -519,17 +1440,20 @@ export function runOtherDiagramTests(): void {
   
   for (const testCase of otherDiagramTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode,
+          astMatches: testCase.expectedAst
         });
       } else {
         assertValidationResult(result, {
           isValid: false,
           diagramType: testCase.expectedDiagramType,
+          errorCount: testCase.errorCount,
           hasErrorWithCode: testCase.expectedErrors?.[0]?.code,
           hasErrorWithMessage: testCase.expectedErrors?.[0]?.message
         });
@@ -0,0 +1,145 @@
+/**
+ * Tests for source ranges
+ * Each case checks the start and end positions, with offsets, that tokens, findings and AST nodes report
+ */
+
+import { Lexer } from '../lexer/index.js';
+import { validateMermaid, validateMarkdown, Range } from '../index.js';
+import { CheckTestSuite, expect, runCheckSuite } from './setup.js';
+
+// 2:3-4:6 style, with offsets when asked for
+function describe(range: Range, withOffsets = false): string {
+  const text = `${range.start.line}:${range.start.column}-${range.end.line}:${range.end.column}`;
+  return withOffsets ? `${text}@${range.start.offset}-${range.end.offset}` : text;
+}
+
+export const rangeTests: CheckTestSuite = {
+  name: 'Range Tests',
+  description: 'Tests for start and end ranges on tokens, findings and AST nodes',
+  testCases: [
+    {
+      name: 'Token ranges cover the token text',
+      check: () => {
+        const source = 'flowchart TD\n  A --> B';
+        const tokens = new Lexer(source).tokenize();
+        const arrow = tokens.find(token => token.value === '-->')!;
+        expect(describe(arrow.range, true) === '2:5-2:8@17-20', `Unexpected arrow range ${describe(arrow.range, true)}`);
+        expect(source.slice(arrow.range.start.offset, arrow.range.end.offset) === '-->', 'Expected offsets to slice the arrow');
+        const eof = tokens[tokens.length - 1];
+        expect(describe(eof.range) === '2:10-2:10', `Expected an empty EOF range, got ${describe(eof.range)}`);
+      }
+    },
+    {
+      name: 'Multi-line directives and strings start where they open',
+      check: () => {
+        const tokens = new Lexer('%%{init: {\n  "theme": "dark"}}%%\nflowchart TD\n  A["two\nlines"] --> B').tokenize();
+        const [directive] = tokens;
+        expect(directive.line === 1 && directive.column === 1, `Expected the directive at 1:1, got ${directive.line}:${directive.column}`);
+        expect(describe(directive.range) === '1:1-2:22', `Unexpected directive range ${describe(directive.range)}`);
+        const label = tokens.find(token => token.value.startsWith('"two'))!;
+        expect(label.line === 4 && label.column === 5, `Expected the string at 4:5, got ${label.line}:${label.column}`);
+        expect(describe(label.range) === '4:5-5:7', `Unexpected string range ${describe(label.range)}`);
+      }
+    },
+    {
+      name: 'Lone carriage returns end a line',
+      check: () => {
+        const tokens = new Lexer('sequenceDiagram\r\nparticipant A\rparticipant B\n  A->>B: Hi').tokenize();
+        const positions = tokens.filter(token => token.value === 'participant' || token.value === 'B')
+          .map(token => `${token.value} ${describe(token.range)}`);
+        expect(JSON.stringify(positions) === '["participant 2:1-2:12","participant 3:1-3:12","B 3:13-3:14","B 4:7-4:8"]',
+          `Unexpected positions ${JSON.stringify(positions)}`);
+        const sequence = validateMermaid('sequenceDiagram\rparticipant A\r  participant B').ast as any;
+        expect(JSON.stringify(sequence.participants.map((participant: any) => participant.name)) === '["A","B"]',
+          `Unexpected participants ${JSON.stringify(sequence.participants.map((participant: any) => participant.name))}`);
+      }
+    },
+    {
+      name: 'Findings on carriage-return-only input use the same lines as the lexer',
+      check: () => {
+        const [error] = validateMermaid('gantt\r  section S\r  A :a1, 2024-01-01, 3d\r  B :b1, after a1 missing, 2d').errors;
+        expect(error.code === 'UNKNOWN_GANTT_DEPENDENCY' && describe(error.range, true) === '4:19-4:26@60-67',
+          `Unexpected error ${error.code} ${describe(error.range, true)}`);
+
+        const [warning] = validateMermaid('flowchart TD\r  A --> B %% note\r  C --> D').warnings;
+        expect(describe(warning.range) === '2:11-2:18', `Unexpected warning range ${describe(warning.range)}`);
+        expect(warning.fix !== undefined && describe(warning.fix.range) === '2:1-2:18',
+          `Unexpected fix range ${warning.fix && describe(warning.fix.range)}`);
+      }
+    },
+    {
+      name: 'Tokens after an inline directive keep their columns',
+      check: () => {
+        const source = '%%{init: {"theme": "dark"}}%% flowchart TD\n  A --> B';
+        const tokens = new Lexer(source).tokenize();
+        expect(describe(tokens[0].range) === '1:1-1:30', `Unexpected directive range ${describe(tokens[0].range)}`);
+        const keyword = tokens[1];
+        expect(keyword.value === 'flowchart' && describe(keyword.range, true) === '1:31-1:40@30-39',
+          `Unexpected keyword range ${describe(keyword.range, true)}`);
+        expect(describe(tokens[2].range) === '1:41-1:43', `Unexpected direction range ${describe(tokens[2].range)}`);
+      }
+    },
+    {
+      name: 'Findings about names point at the name',
+      check: () => {
+        const { warnings } = validateMermaid('flowchart LR\n  A:::missing --> B\n  class A,Zed other');
+        const ranges = warnings.map(warning => `${warning.code} ${describe(warning.range)}`);
+        expect(JSON.stringify(ranges) === '["UNKNOWN_CLASS_NAME 2:7-2:14","UNKNOWN_STYLE_TARGET 3:11-3:14","UNKNOWN_CLASS_NAME 3:15-3:20"]',
+          `Unexpected warning ranges ${JSON.stringify(ranges)}`);
+
+        const [period] = validateMermaid('timeline\n  2021 Q1\n  2022 : Launch').errors;
+        expect(period.code === 'TIMELINE_PERIOD_WITHOUT_EVENTS' && describe(period.range) === '2:3-2:10',
+          `Unexpected period error ${period.code} ${describe(period.range)}`);
+
+        const [note] = validateMermaid('sequenceDiagram\n  Alice->>Bob: Hi\n  Note right of Carol: typo', { strict: true }).errors;
+        expect(note.code === 'UNKNOWN_NOTE_PARTICIPANT' && describe(note.range) === '3:17-3:22',
+          `Unexpected note error ${note.code} ${describe(note.range)}`);
+      }
+    },
+    {
+      name: 'Findings cover the offending token',
+      check: () => {
+        const [error] = validateMermaid('flowchart TD\n  A --> B\n  C -->').errors;
+        expect(error.code === 'INCOMPLETE_ARROW', `Unexpected error ${error.code}`);
+        expect(describe(error.range, true) === '3:5-3:8@27-30', `Unexpected error range ${describe(error.range, true)}`);
+        expect(error.line === error.range.start.line && error.column === error.range.start.column, 'Expected line and column to match the range start');
+      }
+    },
+    {
+      name: 'Gantt dependency errors point at the unknown id',
+      check: () => {
+        const [error] = validateMermaid('gantt\n  section S\n  A :a1, 2024-01-01, 3d\n  B :b1, after a1 missing, 2d').errors;
+        expect(error.code === 'UNKNOWN_GANTT_DEPENDENCY', `Unexpected error ${error.code}`);
+        expect(describe(error.range) === '4:19-4:26', `Unexpected error range ${describe(error.range)}`);
+      }
+    },
+    {
+      name: 'Container nodes span their bodies',
+      check: () => {
+        const flowchart = validateMermaid('flowchart TD\n  subgraph one\n    A --> B\n  end').ast as any;
+        expect(describe(flowchart.range) === '1:1-4:6', `Unexpected diagram range ${describe(flowchart.range)}`);
+        expect(describe(flowchart.nodes[0].range) === '2:3-4:6', `Unexpected subgraph range ${describe(flowchart.nodes[0].range)}`);
+
+        const sequence = validateMermaid('sequenceDiagram\n  alt ok\n    A->>B: hi\n  else no\n    B->>A: bye\n  end').ast as any;
+        const [block] = sequence.blocks;
+        expect(describe(block.range) === '2:3-6:6', `Unexpected block range ${describe(block.range)}`);
+        expect(JSON.stringify(block.branches.map((branch: any) => describe(branch.range))) === '["2:3-3:14","4:3-6:6"]',
+          `Unexpected branch ranges ${JSON.stringify(block.branches.map((branch: any) => describe(branch.range)))}`);
+      }
+    },
+    {
+      name: 'Markdown findings are mapped to document ranges',
+      check: () => {
+        const text = '# Title\n\n```mermaid\nflowchart TD\n  A --> B %% note\n```\n';
+        const [warning] = validateMarkdown(text).warnings;
+        expect(describe(warning.range) === '5:11-5:18', `Unexpected warning range ${describe(warning.range)}`);
+        expect(text.slice(warning.range.start.offset, warning.range.end.offset) === '%% note', 'Expected offsets into the Markdown document');
+      }
+    }
+  ]
+};
+
+// Run the tests
+export function runRangeTests(): void {
+  runCheckSuite(rangeTests);
+}
@@ -67,7 +67,46 @@ export const sequenceTests = createTestSuite(
         A-)B: Solid with cross
         A--)B: Dotted with cross`,
       true,
-      { expectedDiagramType: 'sequence' }
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          messages: [
+            { from: 'A', to: 'B', arrowType: 'solid-arrow' },
+            { from: 'A', to: 'B', arrowType: 'dotted-arrow' },
+            { from: 'A', to: 'B', arrowType: 'solid-async' },
+            { from: 'A', to: 'B', arrowType: 'dotted-async' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Cross, async and bidirectional arrows',
+      `sequenceDiagram
+        Alice->John: Open solid
+        Alice-->John: Open dotted
+        Alice-xJohn: Solid cross
+        Alice--xJohn: Dotted cross
+        Alice-)+John: Async activation
+        John--)-Alice: Async reply
+        Alice<<->>John: Bidirectional
+        Alice<<-->>John: Dotted bidirectional`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          messages: [
+            { arrowType: 'solid-open', message: 'Open solid' },
+            { arrowType: 'dotted-open', message: 'Open dotted' },
+            { arrowType: 'solid-cross', message: 'Solid cross' },
+            { arrowType: 'dotted-cross', message: 'Dotted cross' },
+            { from: 'Alice', to: 'John', arrowType: 'solid-async', activation: 'activate' },
+            { from: 'John', to: 'Alice', arrowType: 'dotted-async', activation: 'deactivate' },
+            { arrowType: 'solid-bidirectional' },
+            { arrowType: 'dotted-bidirectional' }
+          ]
+        }
+      }
     ),
 
     createTestCase(
@@ -134,6 +173,274 @@ export const sequenceTests = createTestSuite(
       { expectedDiagramType: 'sequence' }
     ),
 
+    // Blocks and activations
+    createTestCase(
+      'Nested loop, alt and par blocks',
+      `sequenceDiagram
+        participant Client
+        participant API
+        loop Every minute
+          Client->>API: Poll
+          alt Has updates
+            API-->>Client: Updates
+          else No updates
+            API-->>Client: Empty
+          end
+        end
+        par Notify web
+          API->>Client: Push
+        and Notify mobile
+          API->>Client: Push
+        end`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          blocks: [
+            {
+              kind: 'loop',
+              label: 'Every minute',
+              branches: [
+                {
+                  keyword: 'loop',
+                  messages: [{ from: 'Client', to: 'API', message: 'Poll' }],
+                  blocks: [
+                    {
+                      kind: 'alt',
+                      branches: [
+                        { keyword: 'alt', label: 'Has updates', messages: [{ message: 'Updates' }] },
+                        { keyword: 'else', label: 'No updates', messages: [{ message: 'Empty' }] }
+                      ]
+                    }
+                  ]
+                }
+              ]
+            },
+            {
+              kind: 'par',
+              branches: [{ keyword: 'par', label: 'Notify web' }, { keyword: 'and', label: 'Notify mobile' }]
+            }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Critical, break, opt, rect and box blocks',
+      `sequenceDiagram
+        box Aqua Backend
+          participant API
+          participant DB
+        end
+        critical Connect to DB
+          API->>DB: Connect
+        option Timeout
+          API->>API: Retry
+        end
+        break Connection refused
+          API->>DB: Give up
+        end
+        rect rgb(191, 223, 255)
+          opt Cache warm
+            API->>DB: Prefetch
+          end
+        end`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          participants: [{ name: 'API', box: 'Aqua Backend' }, { name: 'DB', box: 'Aqua Backend' }],
+          blocks: [
+            { kind: 'box', label: 'Aqua Backend' },
+            {
+              kind: 'critical',
+              branches: [
+                { keyword: 'critical', label: 'Connect to DB', messages: [{ message: 'Connect' }] },
+                { keyword: 'option', label: 'Timeout', messages: [{ message: 'Retry' }] }
+              ]
+            },
+            { kind: 'break', label: 'Connection refused' },
+            {
+              kind: 'rect',
+              label: 'rgb(191, 223, 255)',
+              branches: [{ messages: [], blocks: [{ kind: 'opt', label: 'Cache warm', branches: [{ messages: [{ message: 'Prefetch' }] }] }] }]
+            }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Balanced activations with autonumber',
+      `sequenceDiagram
+        autonumber 10 5
+        Alice->>+John: Hello John
+        John-->>-Alice: Hi Alice
+        activate Alice
+        Alice->>John: Bye
+        deactivate Alice`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          autonumber: { start: 10, step: 5 },
+          messages: [
+            { from: 'Alice', to: 'John', activation: 'activate' },
+            { from: 'John', to: 'Alice', activation: 'deactivate' },
+            { from: 'Alice', to: 'John', message: 'Bye' }
+          ],
+          activations: [{ participant: 'Alice', action: 'activate' }, { participant: 'Alice', action: 'deactivate' }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Alt block without end',
+      `sequenceDiagram
+        alt Success
+          Alice->>Bob: Done
+        else Failure
+          Alice->>Bob: Retry`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'UNCLOSED_SEQUENCE_BLOCK'
+      }
+    ),
+
+    createTestCase(
+      'End without open block',
+      `sequenceDiagram
+        Alice->>Bob: Hello
+        end`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'UNMATCHED_END'
+      }
+    ),
+
+    createTestCase(
+      'Else outside alt block',
+      `sequenceDiagram
+        loop Retry
+          Alice->>Bob: Hello
+        else Give up
+          Alice->>Bob: Bye
+        end`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'INVALID_BLOCK_BRANCH'
+      }
+    ),
+
+    createTestCase(
+      'Deactivating an inactive participant',
+      `sequenceDiagram
+        Alice->>Bob: Hello
+        deactivate Bob`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'INACTIVE_PARTICIPANT_DEACTIVATION'
+      }
+    ),
+
+    createTestCase(
+      'Activation never deactivated is only a warning',
+      `sequenceDiagram
+        Alice->>+Bob: Hello`,
+      true,
+      { 
+        expectedDiagramType: 'sequence',
+        hasWarningWithCode: 'UNCLOSED_ACTIVATION'
+      }
+    ),
+
+    // Actors, notes and participant lifecycle
+    createTestCase(
+      'Actors, typed participants and notes',
+      `sequenceDiagram
+        actor U as End User
+        participant DB@{ "type": "database" } as Orders DB
+        participant Q@{ "type": "queue" }
+        U->>DB: Place order
+        Note right of U: Waits for confirmation
+        Note over DB,Q: Order is queued
+        DB->>Q: Enqueue`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          participants: [
+            { kind: 'actor', name: 'U', alias: 'End User' },
+            { kind: 'participant', name: 'DB', alias: 'Orders DB', participantType: 'database' },
+            { kind: 'participant', name: 'Q', participantType: 'queue' }
+          ],
+          notes: [
+            { placement: 'right of', participants: ['U'], text: 'Waits for confirmation' },
+            { placement: 'over', participants: ['DB', 'Q'], text: 'Order is queued' }
+          ]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Created and destroyed participants',
+      `sequenceDiagram
+        Alice->>Bob: Hello Bob
+        create participant Carl
+        Alice->>Carl: Hi Carl
+        destroy Carl
+        Alice-xCarl: We are too many`,
+      true,
+      {
+        expectedDiagramType: 'sequence',
+        expectedAst: {
+          participants: [{ name: 'Carl', created: true }],
+          lifecycle: [{ action: 'create', participant: 'Carl' }, { action: 'destroy', participant: 'Carl' }]
+        }
+      }
+    ),
+
+    createTestCase(
+      'Message to destroyed participant',
+      `sequenceDiagram
+        Alice->>Bob: Hello Bob
+        destroy Bob
+        Alice-xBob: Goodbye
+        Alice->>Bob: Are you there?`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'MESSAGE_TO_DESTROYED_PARTICIPANT'
+      }
+    ),
+
+    createTestCase(
+      'Note with invalid placement',
+      `sequenceDiagram
+        Alice->>Bob: Hello
+        Note above Alice: Thinking`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'INVALID_SEQUENCE_NOTE'
+      }
+    ),
+
+    createTestCase(
+      'Unknown participant type annotation',
+      `sequenceDiagram
+        participant Cloud@{ "type": "cloud" }`,
+      false,
+      { 
+        expectedDiagramType: 'sequence',
+        hasErrorWithCode: 'INVALID_PARTICIPANT_TYPE'
+      }
+    ),
+
     // Error cases
     createTestCase(
       'Empty sequence diagram',
@@ -294,12 +601,14 @@ export function runSequenceTests(): void {
   
   for (const testCase of sequenceTests.testCases) {
     try {
-      const result = validateMermaid(testCase.input);
+      const result = validateMermaid(testCase.input, testCase.validationOptions);
       
       if (testCase.expectedValid) {
         assertValidationResult(result, {
           isValid: true,
-          diagramType: testCase.expectedDiagramType
+          diagramType: testCase.expectedDiagramType,
+          hasWarningWithCode: testCase.hasWarningWithCode,
+          astMatches: testCase.expectedAst
         });
       } else {
         assertValidationResult(result, {
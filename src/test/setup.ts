@@ -2,7 +2,7 @@
  * Test setup and utilities for mermaid-validator
  */
 
-import { ValidationResult, ValidationError } from '../ast/index.js';
+import { ValidationResult, ValidationError, ValidationOptions } from '../ast/index.js';
 
 export interface TestCase {
   name: string;
@@ -10,9 +10,14 @@ export interface TestCase {
   expectedValid: boolean;
   expectedDiagramType?: string;
   expectedErrors?: Partial<ValidationError>[];
+  errorCount?: number;
   description?: string;
   hasErrorWithCode?: string;
   hasErrorWithMessage?: string;
+  hasWarningWithCode?: string;
+  // Properties the AST must have; objects match partially, arrays element by element
+  expectedAst?: object;
+  validationOptions?: ValidationOptions;
 }
 
 export interface TestSuite {
@@ -21,6 +26,18 @@ export interface TestSuite {
   testCases: TestCase[];
 }
 
+// A case that runs its own assertions and throws on the first that fails
+export interface CheckTestCase {
+  name: string;
+  check: () => void;
+}
+
+export interface CheckTestSuite {
+  name: string;
+  description: string;
+  testCases: CheckTestCase[];
+}
+
 export interface TestStats {
   totalTests: number;
   passedTests: number;
@@ -43,9 +60,13 @@ export function createTestCase(
   options: {
     expectedDiagramType?: string;
     expectedErrors?: Partial<ValidationError>[];
+    errorCount?: number;
     description?: string;
     hasErrorWithCode?: string;
     hasErrorWithMessage?: string;
+    hasWarningWithCode?: string;
+    expectedAst?: object;
+    validationOptions?: ValidationOptions;
   } = {}
 ): TestCase {
   return {
@@ -71,6 +92,37 @@ export function createTestSuite(
   };
 }
 
+/**
+ * Throw with the given message unless the condition holds
+ */
+export function expect(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+/**
+ * Run a suite of check cases, printing one line per case and a summary
+ */
+export function runCheckSuite(suite: CheckTestSuite): void {
+  console.log(`\n🧪 Running ${suite.name}`);
+  console.log(`📝 ${suite.description}`);
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of suite.testCases) {
+    try {
+      testCase.check();
+      console.log(`✅ ${testCase.name}`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${testCase.name}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 ${suite.name} Results: ${passed} passed, ${failed} failed`);
+}
+
 /**
  * Assert that a validation result matches expected values
  */
@@ -82,6 +134,8 @@ export function assertValidationResult(
     errorCount?: number;
     hasErrorWithCode?: string;
     hasErrorWithMessage?: string;
+    hasWarningWithCode?: string;
+    astMatches?: object;
   }
 ): void {
   if (result.isValid !== expected.isValid) {
@@ -121,4 +175,48 @@ export function assertValidationResult(
       );
     }
   }
+
+  if (expected.hasWarningWithCode) {
+    const hasWarning = result.warnings.some(warning => warning.code === expected.hasWarningWithCode);
+    if (!hasWarning) {
+      throw new Error(
+        `Expected warning with code '${expected.hasWarningWithCode}', but found warnings: ${JSON.stringify(result.warnings.map(w => w.code), null, 2)}`
+      );
+    }
+  }
+
+  if (expected.astMatches) {
+    const mismatch = findMismatch(result.ast, expected.astMatches, 'ast');
+    if (mismatch) {
+      throw new Error(`Expected ${mismatch}`);
+    }
+  }
+}
+
+/**
+ * Find the first place where a value differs from a partial expectation
+ * @returns A description of the mismatch, or undefined when the value matches
+ */
+function findMismatch(actual: unknown, expected: unknown, path: string): string | undefined {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return `${path} to have ${expected.length} items, but got ${JSON.stringify(actual)}`;
+    }
+    for (let i = 0; i < expected.length; i++) {
+      const mismatch = findMismatch(actual[i], expected[i], `${path}[${i}]`);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object') {
+      return `${path} to be an object, but got ${JSON.stringify(actual)}`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = findMismatch((actual as { [key: string]: unknown })[key], value, `${path}.${key}`);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  return actual === expected ? undefined : `${path} to be ${JSON.stringify(expected)}, but got ${JSON.stringify(actual)}`;
 }